@@ -0,0 +1,115 @@
+/*
+
+The bounds of the scene where the players can go and have their actions
+transmitted. Each axis has its own min-max range and on {x,z} the scene
+is the union of its parcels.
+
+*/
+
+import { parcelHeight, parcelSize, sceneBase, sceneParcels } from "./config";
+
+/**
+ * A min-max range on one axis
+ */
+export interface IAxisBounds {
+  min: number;
+  max: number;
+}
+
+/**
+ * One parcel on {x,z} in scene coordinates
+ */
+export interface IParcelRect {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+/**
+ * Everything needed to know if a position is inside the scene
+ */
+export interface ISceneBounds {
+  x: IAxisBounds;
+  y: IAxisBounds;
+  z: IAxisBounds;
+  parcels: IParcelRect[];
+}
+
+const parcelPattern = /^\s*(-?\d{1,3})\s*,\s*(-?\d{1,3})\s*$/;
+
+/**
+ * Turn "x,y" parcel coordinates into numbers
+ */
+export function parseParcel(coords: string): [number, number] | undefined {
+  const match = parcelPattern.exec(coords);
+
+  if (match === null) {
+    return undefined;
+  }
+
+  return [parseInt(match[1], 10), parseInt(match[2], 10)];
+}
+
+/**
+ * Build the bounds from the `scene.parcels` and `scene.base` of scene.json
+ *
+ * The scene's origin is the corner of the base parcel so every parcel is
+ * offset from that.
+ */
+export function createSceneBounds(
+  parcels: string[],
+  base: string
+): ISceneBounds | undefined {
+  const baseCoords = parseParcel(base);
+
+  if (baseCoords === undefined || parcels.length === 0) {
+    return undefined;
+  }
+
+  const [baseX, baseY] = baseCoords;
+  const rects: IParcelRect[] = [];
+
+  for (const parcel of parcels) {
+    const coords = parseParcel(parcel);
+
+    if (coords === undefined) {
+      return undefined;
+    }
+
+    const [parcelX, parcelY] = coords;
+    const minX = (parcelX - baseX) * parcelSize;
+    const minZ = (parcelY - baseY) * parcelSize;
+
+    rects.push({
+      minX,
+      maxX: minX + parcelSize,
+      minZ,
+      maxZ: minZ + parcelSize,
+    });
+  }
+
+  return {
+    x: {
+      min: Math.min(...rects.map((rect) => rect.minX)),
+      max: Math.max(...rects.map((rect) => rect.maxX)),
+    },
+    y: {
+      min: 0,
+      max: Math.log2(rects.length + 1) * parcelHeight,
+    },
+    z: {
+      min: Math.min(...rects.map((rect) => rect.minZ)),
+      max: Math.max(...rects.map((rect) => rect.maxZ)),
+    },
+    parcels: rects,
+  };
+}
+
+/**
+ * The bounds from ./config.ts, used until the server sends the real ones
+ */
+export const defaultSceneBounds = createSceneBounds(
+  sceneParcels,
+  sceneBase
+) as ISceneBounds;
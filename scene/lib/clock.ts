@@ -0,0 +1,109 @@
+/*
+
+NTP style clock synchronization. The scene stamps each ping with its
+clock (t0), the server stamps when the ping arrived (t1) and when the pong
+left (t2), and the scene stamps when the pong came back (t3).
+
++ round trip = (t3 - t0) - (t2 - t1)
++ offset = ((t1 - t0) + (t2 - t3)) / 2
+
+Adding the offset to the scene's clock gives the server's. Samples with
+the shortest round trip waited the least in queues so the offset comes
+from the best recent one.
+
+*/
+
+import { ICharacterPongEvent } from "./character-manager";
+import { clockSamples } from "./config";
+import { isValidNumber } from "./formats";
+
+/**
+ * What one ping and pong measured
+ */
+export interface IClockSample {
+  rtt: number;
+  offset: number;
+}
+
+/**
+ * Work out the round trip and offset from a pong, undefined when the
+ * stamps don't make sense
+ */
+export function measureClock(
+  pongEvent: ICharacterPongEvent,
+  receivedAt: number
+): IClockSample | undefined {
+  const { sentAt, receivedAt: serverReceivedAt, repliedAt } = pongEvent;
+
+  if (
+    isValidNumber(sentAt) === false ||
+    isValidNumber(serverReceivedAt) === false ||
+    isValidNumber(repliedAt) === false ||
+    isValidNumber(receivedAt) === false
+  ) {
+    return undefined;
+  }
+
+  const rtt = receivedAt - sentAt - (repliedAt - serverReceivedAt);
+
+  if (rtt < 0) {
+    return undefined;
+  }
+
+  const offset = (serverReceivedAt - sentAt + (repliedAt - receivedAt)) / 2;
+  return { rtt, offset };
+}
+
+export class ClockSync {
+  public samples: IClockSample[] = [];
+
+  constructor(public sampleCount: number = clockSamples) {}
+
+  /**
+   * Keep the sample, forgetting the oldest ones
+   */
+  public add(sample: IClockSample): void {
+    const { samples, sampleCount } = this;
+    samples.push(sample);
+    samples.splice(0, Math.max(samples.length - sampleCount, 0));
+  }
+
+  /**
+   * The average round trip in whole milliseconds
+   */
+  public latency(): number | undefined {
+    const { samples } = this;
+
+    if (samples.length === 0) {
+      return undefined;
+    }
+
+    const total = samples.reduce((sum, sample) => sum + sample.rtt, 0);
+    return Math.round(total / samples.length);
+  }
+
+  /**
+   * The offset from the sample with the shortest round trip
+   */
+  public offset(): number | undefined {
+    const { samples } = this;
+
+    if (samples.length === 0) {
+      return undefined;
+    }
+
+    const best = samples.reduce(
+      (min, sample) => (sample.rtt < min.rtt ? sample : min),
+      samples[0]
+    );
+    return best.offset;
+  }
+
+  /**
+   * Our best guess of the server's clock
+   */
+  public serverTime(now: number = Date.now()): number {
+    const offset = this.offset();
+    return offset !== undefined ? now + offset : now;
+  }
+}
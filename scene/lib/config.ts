@@ -25,13 +25,222 @@ export const socketPath: string = `/${appKey}`;
 export const socketHost = "http://127.0.0.1:8835";
 
 /**
- * The min-max ranges {x,y,z} the players can go and have their actions
- * transmitted.
+ * The parcels which make up the scene. The server reads these from
+ * ../scene/scene.json and sends them to the scene. These are the defaults
+ * until that happens.
  */
-export const boundsMin: number = 0;
-export const boundsMax: number = 10;
+export const sceneParcels: string[] = ["0,0"];
+export const sceneBase: string = "0,0";
+
+/**
+ * Each parcel is a square this many meters on {x,z}
+ */
+export const parcelSize: number = 10;
+
+/**
+ * How high {y} the players can go. Decentraland allows more height as the
+ * scene gets more parcels: log2(parcels + 1) * parcelHeight
+ */
+export const parcelHeight: number = 20;
+
+/**
+ * What happens when a character is outside the bounds
+ *
+ * + "reject" refuses the event
+ * + "clamp" moves them to the nearest spot inside the bounds
+ * + "mark" keeps their position but flags them as out of bounds
+ */
+export type BoundsPolicy = "reject" | "clamp" | "mark";
+export const boundsPolicy: BoundsPolicy = "mark";
 
 /**
  * Remember characters for this long when they go idle
  */
 export const characterIdleMs: number = 60000; // 1min in milliseconds
+
+/**
+ * The scene pings this often and works out its latency and clock offset
+ * from the last `clockSamples` pongs
+ */
+export const pingIntervalMs: number = 5000; // 5sec in milliseconds
+export const clockSamples: number = 8;
+
+/**
+ * The scene draws other characters this far behind real time so it can
+ * interpolate between the updates on either side. When the next update is
+ * late it keeps them going along their last velocity for up to
+ * `extrapolationMs` before settling back. While anyone moves it redraws
+ * every `renderIntervalMs`.
+ */
+export const interpolationDelayMs: number = 100;
+export const extrapolationMs: number = 250;
+export const renderIntervalMs: number = 50;
+
+/**
+ * How long a character waits for its client to reconnect and resume it
+ * before it's parted
+ */
+export const resumeGraceMs: number = 30000; // 30sec in milliseconds
+
+/**
+ * How many parted characters each room remembers so clients can resync
+ * with only the differences. Clients further behind get a full snapshot.
+ */
+export const tombstoneLimit: number = 1000;
+
+/**
+ * The attributes characters may have besides their username, like the
+ * color of their avatar or their team. Each one has a type and a
+ * validator its values have to pass. Anything else is rejected.
+ */
+export type AttributeType = "string" | "number" | "boolean";
+
+export interface IAttributeSchema {
+  type: AttributeType;
+  validator: (value: any) => boolean;
+}
+
+export interface IAttributeSchemaHashTable {
+  [key: string]: IAttributeSchema;
+}
+
+const validColorPattern = /^#[0-9a-fA-F]{6}$/;
+const validTeamPattern = /^(red|blue|green|yellow)$/;
+const validStatusPattern = /^[0-9a-zA-Z\-\_\.\,\!\?\ ]{0,40}$/;
+const validItemPattern = /^[0-9a-z\-]{1,32}$/;
+
+export const attributeSchema: IAttributeSchemaHashTable = {
+  color: {
+    type: "string",
+    validator: (color: string) => validColorPattern.test(color) === true,
+  },
+  item: {
+    type: "string",
+    validator: (item: string) => validItemPattern.test(item) === true,
+  },
+  status: {
+    type: "string",
+    validator: (status: string) => validStatusPattern.test(status) === true,
+  },
+  team: {
+    type: "string",
+    validator: (team: string) => validTeamPattern.test(team) === true,
+  },
+};
+
+/**
+ * How long everyone sees a character's wave, jump, or point
+ */
+export const actionDurationMs: number = 2000; // 2sec in milliseconds
+
+/**
+ * Nobody can call themselves any of these, whatever the case or the
+ * dashes, dots, and spaces in between
+ */
+export const reservedUsernames: string[] = [
+  "admin",
+  "administrator",
+  "moderator",
+  "server",
+  "system",
+];
+
+/**
+ * How many moderation actions the server remembers in its audit log
+ */
+export const auditLogLimit: number = 1000;
+
+/**
+ * How many chat messages each room keeps to replay to characters joining
+ */
+export const chatHistoryLimit: number = 50;
+
+/**
+ * When above 0 the server sends one batched snapshot of the characters
+ * which moved this many times per second instead of relaying every
+ * position and rotation event as it comes in.
+ */
+export const tickRateHz: number = 0;
+
+/**
+ * The automatic door between the walls near where the player spawns. It
+ * slides from `doorClosedX` to `doorOpenX` when anyone comes closer than
+ * `doorClosedDistance` to where it's closed, and closes again once
+ * nobody is within `doorOpenDistance`.
+ */
+export const doorId: string = "door";
+export const doorClosedX: number = 5;
+export const doorOpenX: number = 3;
+export const doorZ: number = 0.5;
+export const doorClosedDistance: number = 3;
+export const doorOpenDistance: number = 4;
+
+/**
+ * When above 0 the server only relays movement between characters within
+ * this many meters of each other. Characters coming into range are joined
+ * and the ones leaving it are parted with the "out-of-range" reason.
+ */
+export const interestRadius: number = 0;
+
+/**
+ * Clients name the room they want when connecting, or end up in this one.
+ * A room with `roomCapacity` sockets in it is full and the next socket
+ * opens another instance of it. 0 means no limit.
+ */
+export const defaultRoom: string = "default";
+export const roomCapacity: number = 0;
+
+/**
+ * How often each socket may send each event. Every event type gets a
+ * token bucket holding `burst` tokens which refills `perSecond` tokens.
+ * Events over the limit are dropped.
+ */
+export interface IRateLimit {
+  burst: number;
+  perSecond: number;
+}
+
+export interface IRateLimitHashTable {
+  [key: string]: IRateLimit;
+}
+
+export const rateLimits: IRateLimitHashTable = {
+  "character-action": { burst: 5, perSecond: 1 },
+  "character-attributes": { burst: 10, perSecond: 2 },
+  "character-join": { burst: 5, perSecond: 0.5 },
+  "character-part": { burst: 5, perSecond: 0.5 },
+  "character-ping": { burst: 5, perSecond: 1 },
+  "character-position": { burst: 120, perSecond: 60 },
+  "character-rotation": { burst: 120, perSecond: 60 },
+  "character-username": { burst: 10, perSecond: 2 },
+  "chat-message": { burst: 5, perSecond: 1 },
+  resync: { burst: 3, perSecond: 1 },
+};
+
+/**
+ * Sockets dropping this many events within the window get a warning,
+ * and past the second number they're disconnected
+ */
+export const rateLimitWindowMs: number = 10000; // 10sec in milliseconds
+export const rateLimitWarnDrops: number = 20;
+export const rateLimitDisconnectDrops: number = 200;
+
+/**
+ * The server logs its stats this often, if anything changed
+ */
+export const statsLogMs: number = 60000; // 1min in milliseconds
+
+/**
+ * Upper bounds in seconds of the handler latency histogram in `/metrics`
+ */
+export const handlerLatencyBuckets: number[] = [
+  0.0001,
+  0.0005,
+  0.001,
+  0.0025,
+  0.005,
+  0.01,
+  0.025,
+  0.05,
+  0.1,
+];
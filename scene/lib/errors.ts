@@ -0,0 +1,86 @@
+/*
+
+Errors which reach the client carry a code, and the field when the
+event didn't validate, so the scene can react to them without matching
+on the message. The server sends them back through the socket.io
+acknowledgement of the event which failed.
+
+*/
+
+export type ErrorCode =
+  | "VALIDATION_FAILED"
+  | "UNKNOWN_CHARACTER"
+  | "UNKNOWN_ENTITY"
+  | "NOT_OWNER"
+  | "NOT_JOINED"
+  | "OUT_OF_BOUNDS"
+  | "STALE_UPDATE"
+  | "RATE_LIMITED"
+  | "USERNAME_TAKEN"
+  | "USERNAME_RESERVED"
+  | "USERNAME_FILTERED"
+  | "MESSAGE_FILTERED"
+  | "MUTED"
+  | "MALFORMED"
+  | "INTERNAL";
+
+export interface ICodedError extends Error {
+  code: ErrorCode;
+  field?: string;
+}
+
+/**
+ * An error the way it's sent to clients
+ */
+export interface IEventError {
+  code: ErrorCode;
+  message: string;
+  field?: string;
+}
+
+/**
+ * What the server answers an event with when the client asks for an
+ * acknowledgement
+ */
+export interface IEventAck {
+  ok: boolean;
+  error?: IEventError;
+}
+
+export type EventAck = (ack: IEventAck) => void;
+
+export function codedError(
+  code: ErrorCode,
+  message: string,
+  field?: string
+): ICodedError {
+  const error = new Error(message) as ICodedError;
+  error.code = code;
+
+  if (field !== undefined) {
+    error.field = field;
+  }
+
+  return error;
+}
+
+/**
+ * Anything without a code is our fault, not the client's
+ */
+export function eventError(error: Error | undefined): IEventError {
+  if (error === undefined) {
+    return { code: "INTERNAL", message: "unknown" };
+  }
+
+  const { code = "INTERNAL", field, message } = error as Partial<ICodedError>;
+  return field !== undefined
+    ? { code, field, message: `${message}` }
+    : { code, message: `${message}` };
+}
+
+/**
+ * socket.io passes the acknowledgement as the last argument, if the
+ * client asked for one
+ */
+export const isEventAck = (ack: any): ack is EventAck =>
+  typeof ack === "function";
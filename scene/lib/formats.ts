@@ -1,35 +1,113 @@
 import { Vector3Component } from "decentraland-api";
-import { boundsMax, boundsMin } from "./config";
+import {
+  defaultSceneBounds,
+  IAxisBounds,
+  IParcelRect,
+  ISceneBounds,
+} from "./bounds";
+import { attributeSchema } from "./config";
 
 const isNumber = require("lodash/isNumber");
 const isFinite = require("lodash/isFinite");
 const clamp = require("lodash/clamp");
 
-const validIdPattern = /^character-\d{5,20}$/;
+const validIdPattern = /^character-[0-9a-f]{32}$/;
+const validTokenPattern = /^[0-9a-f]{64}$/;
 const validUsernamePattern = /^[0-9a-zA-Z\-\_\.\ ]{3,20}$/;
+const validRoomPattern = /^[0-9a-zA-Z\-\_\.\,]{1,64}$/;
+const validBoundsPolicies = ["reject", "clamp", "mark"];
+const validActions = ["wave", "jump", "point"];
+const maxSeq = 4294967295; // fits in a u32 for the binary protocol
+const maxLatencyMs = 60000;
+const maxChatLength = 200;
+// anything but control characters, and not only whitespace
+const validChatPattern = /^[^\u0000-\u001f\u007f]*\S[^\u0000-\u001f\u007f]*$/;
 
 /**
- * Generate a random id for the character
+ * Generate a random username for the character until they pick one
  * @returns {string}
  */
-export const randomId = (): string => {
+export const randomUsername = (): string => {
   const randPart: string = Math.random()
     .toString()
     .substring(2, 8);
-  return `character-${randPart}`;
+  return `guest-${randPart}`;
 };
 
 /**
- * True if valid id
+ * True if valid id. The server issues them when a socket connects.
  */
 export const isValidId = (id: string): boolean =>
   validIdPattern.test(id) === true;
 
+/**
+ * True if it looks like a token the server issued with an id
+ */
+export const isValidToken = (token: string): boolean =>
+  validTokenPattern.test(token) === true;
+
 /**
  * Check if the user input is a valid username
  */
 export const isValidUsername = (username: string): boolean =>
-  validUsernamePattern.test(username) === true;
+  typeof username === "string" && validUsernamePattern.test(username) === true;
+
+/**
+ * Room names are scene ids like "-12,40" or plain names like "lobby"
+ */
+export const isValidRoomName = (room: string): boolean =>
+  typeof room === "string" && validRoomPattern.test(room) === true;
+
+/**
+ * Sequence numbers are whole numbers which fit in a u32
+ */
+export const isValidSeq = (seq: number): boolean =>
+  Number.isInteger(seq) === true && seq >= 0 && seq <= maxSeq;
+
+/**
+ * Round trips in milliseconds, anything over a minute is nonsense
+ */
+export const isValidLatency = (latency: number): boolean =>
+  isValidNumber(latency) === true && latency >= 0 && latency <= maxLatencyMs;
+
+/**
+ * Only the actions the scene knows how to animate
+ */
+export const isValidAction = (action: string): boolean =>
+  validActions.indexOf(action) !== -1;
+
+/**
+ * Every key has to be in `attributeSchema` in ./config.ts with a value of
+ * its type which passes its validator. `null` removes the attribute.
+ */
+export const isValidAttributes = (attributes: any): boolean =>
+  attributes !== undefined &&
+  attributes !== null &&
+  typeof attributes === "object" &&
+  Array.isArray(attributes) === false &&
+  Object.keys(attributes).every((key) => {
+    const schema = attributeSchema[key];
+    const value = attributes[key];
+    return (
+      Object.prototype.hasOwnProperty.call(attributeSchema, key) === true &&
+      (value === null ||
+        (typeof value === schema.type && schema.validator(value) === true))
+    );
+  });
+
+/**
+ * Chat lines are up to 200 characters on one line
+ */
+export const isValidChatText = (text: string): boolean =>
+  typeof text === "string" &&
+  text.length <= maxChatLength &&
+  validChatPattern.test(text) === true;
+
+/**
+ * True if it's one of the policies from ./config.ts
+ */
+export const isValidBoundsPolicy = (policy: string): boolean =>
+  validBoundsPolicies.indexOf(policy) !== -1;
 
 /**
  * An actual JS number excluding NaN and Intinity
@@ -41,41 +119,116 @@ export const isValidNumber = (num: number) =>
   isFinite(num) === true;
 
 /**
- * True when the value is a number within our configured bounds
+ * True when the value is a number within one axis of the bounds
  */
-export const isValidBoundedNumber = (num: number): boolean =>
+export const isValidBoundedNumber = (num: number, axis: IAxisBounds): boolean =>
   isValidNumber(num) === true &&
-  // and it's within our square
-  num >= boundsMin &&
-  num <= boundsMax;
+  // and it's within the range
+  num >= axis.min &&
+  num <= axis.max;
+
+/**
+ * True if {x,z} is on this parcel
+ */
+export const isInParcel = (v3: Vector3Component, rect: IParcelRect): boolean =>
+  v3.x >= rect.minX &&
+  v3.x <= rect.maxX &&
+  v3.z >= rect.minZ &&
+  v3.z <= rect.maxZ;
 
 /**
  * Returns true if the Vector3Component has valid coordinates
  */
 export const isValidVector3Component = (v3: Vector3Component): boolean =>
+  v3 !== undefined &&
+  v3 !== null &&
   isValidNumber(v3.x) === true &&
   isValidNumber(v3.y) === true &&
   isValidNumber(v3.z) === true;
 
 /**
- * Validates a Vector3Component as being in bounds
+ * Validates a Vector3Component as being in bounds, on one of the parcels
+ */
+export const isValidBoundedVector3Component = (
+  v3: Vector3Component,
+  bounds: ISceneBounds = defaultSceneBounds
+): boolean =>
+  isValidBoundedNumber(v3.x, bounds.x) === true &&
+  isValidBoundedNumber(v3.y, bounds.y) === true &&
+  isValidBoundedNumber(v3.z, bounds.z) === true &&
+  bounds.parcels.some((rect) => isInParcel(v3, rect)) === true;
+
+/**
+ * Pythagoras' theorem implementation
+ *
+ * Note: It uses {x,z} not {x,y}. The y-coordinate is how high up it is.
  */
-export const isValidBoundedVector3Component = (v3: Vector3Component): boolean =>
-  isValidBoundedNumber(v3.x) === true &&
-  isValidBoundedNumber(v3.y) === true &&
-  isValidBoundedNumber(v3.z) === true;
+export function distance(
+  pos1: Vector3Component,
+  pos2: Vector3Component
+): number {
+  const a = pos1.x - pos2.x;
+  const b = pos1.z - pos2.z;
+  return Math.sqrt(a * a + b * b);
+}
 
 /**
- * Clamp a number to the configured bounds
+ * True if the axis is a usable min-max range
  */
-export const clampNumber = (num: number): number =>
-  clamp(num, boundsMin, boundsMax);
+export const isValidAxisBounds = (axis: IAxisBounds): boolean =>
+  axis !== undefined &&
+  axis !== null &&
+  isValidNumber(axis.min) === true &&
+  isValidNumber(axis.max) === true &&
+  axis.min < axis.max;
 
 /**
- * Limit the {x,y,z} of a Vector3Component object to the configured bounds
+ * Check the bounds the server sends the scene
  */
-export const clampVector3 = (v3: Vector3Component): Vector3Component => ({
-  x: clampNumber(v3.x),
-  y: clampNumber(v3.y),
-  z: clampNumber(v3.z),
-});
+export const isValidSceneBounds = (bounds: ISceneBounds): boolean =>
+  bounds !== undefined &&
+  bounds !== null &&
+  isValidAxisBounds(bounds.x) === true &&
+  isValidAxisBounds(bounds.y) === true &&
+  isValidAxisBounds(bounds.z) === true &&
+  Array.isArray(bounds.parcels) === true &&
+  bounds.parcels.length > 0 &&
+  bounds.parcels.every(
+    (rect) =>
+      isValidAxisBounds({ min: rect.minX, max: rect.maxX }) === true &&
+      isValidAxisBounds({ min: rect.minZ, max: rect.maxZ }) === true
+  );
+
+/**
+ * Clamp a number to one axis of the bounds
+ */
+export const clampNumber = (num: number, axis: IAxisBounds): number =>
+  clamp(num, axis.min, axis.max);
+
+/**
+ * Limit the {x,y,z} of a Vector3Component object to the configured bounds.
+ * Off the scene it goes to the nearest point on the closest parcel.
+ */
+export const clampVector3 = (
+  v3: Vector3Component,
+  bounds: ISceneBounds = defaultSceneBounds
+): Vector3Component => {
+  const y = clampNumber(v3.y, bounds.y);
+  let nearest: Vector3Component = { x: v3.x, y, z: v3.z };
+  let nearestDistance = Infinity;
+
+  bounds.parcels.forEach((rect) => {
+    const x = clampNumber(v3.x, { min: rect.minX, max: rect.maxX });
+    const z = clampNumber(v3.z, { min: rect.minZ, max: rect.maxZ });
+    const a = v3.x - x;
+    const b = v3.z - z;
+    const rectDistance = a * a + b * b;
+
+    if (rectDistance < nearestDistance) {
+      nearest = { x, y, z };
+      nearestDistance = rectDistance;
+    }
+  });
+
+  return nearest;
+};
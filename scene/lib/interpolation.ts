@@ -0,0 +1,220 @@
+/*
+
+Other characters only tell us where they are a few times a second, and
+those updates arrive whenever the network gets around to it. Drawing them
+where they were last seen looks jerky, so each update is buffered with the
+time it arrived and characters are drawn a little behind real time,
+between the two updates on either side. When the next update is late they
+keep going along their last velocity for a short while. If nothing comes
+they settle back where they were last seen, they probably just stopped.
+
+*/
+
+import { Vector3Component } from "decentraland-api";
+import { extrapolationMs, interpolationDelayMs } from "./config";
+
+/**
+ * One update and when it arrived
+ */
+export interface ISample {
+  time: number;
+  value: Vector3Component;
+}
+
+export interface ISampleBufferHashTable {
+  [key: string]: SampleBuffer;
+}
+
+// enough for about a second of updates
+const maxSamples = 20;
+
+const lerp = (from: number, to: number, amount: number): number =>
+  from + (to - from) * amount;
+
+/**
+ * The shortest way around from one angle to another, -180 to 180
+ */
+const angleDelta = (from: number, to: number): number =>
+  ((((to - from) % 360) + 540) % 360) - 180;
+
+const wrapAngle = (angle: number): number => ((angle % 360) + 360) % 360;
+
+/**
+ * The samples of one vector, positions or rotations, for one character
+ */
+export class SampleBuffer {
+  public samples: ISample[] = [];
+
+  constructor(public isAngle: boolean) {}
+
+  public add(value: Vector3Component, time: number): void {
+    const { samples } = this;
+    samples.push({ time, value: { ...value } });
+    samples.splice(0, Math.max(samples.length - maxSamples, 0));
+  }
+
+  /**
+   * The time of the newest sample
+   */
+  public lastTime(): number | undefined {
+    const { samples } = this;
+    return samples.length > 0 ? samples[samples.length - 1].time : undefined;
+  }
+
+  /**
+   * Where it was at the time, between two samples or past the last one
+   */
+  public valueAt(time: number): Vector3Component | undefined {
+    const { samples } = this;
+
+    if (samples.length === 0) {
+      return undefined;
+    }
+
+    if (samples.length === 1 || time <= samples[0].time) {
+      return samples[0].value;
+    }
+
+    const last = samples[samples.length - 1];
+
+    if (time >= last.time) {
+      return this.extrapolate(time);
+    }
+
+    let index = 0;
+
+    while (samples[index + 1].time <= time) {
+      index += 1;
+    }
+
+    const from = samples[index];
+    const to = samples[index + 1];
+    const amount = (time - from.time) / (to.time - from.time);
+    return this.mix(from.value, to.value, amount);
+  }
+
+  /**
+   * Keep going along the velocity between the last two samples for up to
+   * `extrapolationMs`, then settle back on the last sample over as long
+   */
+  private extrapolate(time: number): Vector3Component {
+    const { samples } = this;
+    const last = samples[samples.length - 1];
+    const previous = samples[samples.length - 2];
+    const span = last.time - previous.time;
+    const elapsed = time - last.time;
+    const ahead =
+      elapsed <= extrapolationMs
+        ? elapsed
+        : Math.max(extrapolationMs * 2 - elapsed, 0);
+
+    if (span <= 0 || ahead === 0) {
+      return last.value;
+    }
+
+    return this.mix(previous.value, last.value, 1 + ahead / span);
+  }
+
+  private mix(
+    from: Vector3Component,
+    to: Vector3Component,
+    amount: number
+  ): Vector3Component {
+    if (this.isAngle === true) {
+      return {
+        x: wrapAngle(from.x + angleDelta(from.x, to.x) * amount),
+        y: wrapAngle(from.y + angleDelta(from.y, to.y) * amount),
+        z: wrapAngle(from.z + angleDelta(from.z, to.z) * amount),
+      };
+    }
+
+    return {
+      x: lerp(from.x, to.x, amount),
+      y: lerp(from.y, to.y, amount),
+      z: lerp(from.z, to.z, amount),
+    };
+  }
+}
+
+/**
+ * Positions and rotations of every other character, drawn `delayMs`
+ * behind real time
+ */
+export class Interpolator {
+  public positions: ISampleBufferHashTable = {};
+  public rotations: ISampleBufferHashTable = {};
+
+  constructor(public delayMs: number = interpolationDelayMs) {}
+
+  public addPosition(
+    id: string,
+    position: Vector3Component,
+    time: number = Date.now()
+  ): void {
+    if (this.positions[id] === undefined) {
+      this.positions[id] = new SampleBuffer(false);
+    }
+
+    this.positions[id].add(position, time);
+  }
+
+  public addRotation(
+    id: string,
+    rotation: Vector3Component,
+    time: number = Date.now()
+  ): void {
+    if (this.rotations[id] === undefined) {
+      this.rotations[id] = new SampleBuffer(true);
+    }
+
+    this.rotations[id].add(rotation, time);
+  }
+
+  public position(
+    id: string,
+    now: number = Date.now()
+  ): Vector3Component | undefined {
+    const buffer = this.positions[id];
+    return buffer !== undefined
+      ? buffer.valueAt(now - this.delayMs)
+      : undefined;
+  }
+
+  public rotation(
+    id: string,
+    now: number = Date.now()
+  ): Vector3Component | undefined {
+    const buffer = this.rotations[id];
+    return buffer !== undefined
+      ? buffer.valueAt(now - this.delayMs)
+      : undefined;
+  }
+
+  /**
+   * True while anyone is still between samples or extrapolating, it's
+   * only worth redrawing until then
+   */
+  public isMoving(now: number = Date.now()): boolean {
+    const { positions, rotations, delayMs } = this;
+    const buffers = [
+      ...Object.keys(positions).map((id) => positions[id]),
+      ...Object.keys(rotations).map((id) => rotations[id]),
+    ];
+
+    return buffers.some((buffer) => {
+      const lastTime = buffer.lastTime();
+      return (
+        lastTime !== undefined &&
+        now - delayMs <= lastTime + extrapolationMs * 2
+      );
+    });
+  }
+
+  /**
+   * The character left so stop drawing it
+   */
+  public forget(id: string): void {
+    delete this.positions[id];
+    delete this.rotations[id];
+  }
+}
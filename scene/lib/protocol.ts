@@ -0,0 +1,285 @@
+/*
+
+A compact binary encoding for the hot-path events, position and
+rotation. JSON is still used for everything else and as a fallback.
+
+Each message is:
+
++ u8 kind, position or rotation
++ u16 slot, the short numeric id of the character (0 means the sender)
++ u8 mask of the axes which changed, x = 1, y = 2, z = 4, plus 8 when
+  there's a sequence number
++ u32 sequence number of the update, only with the 8 bit
++ u16 for each changed axis in x, y, z order
+
+Positions are quantized relative to the scene bounds and rotations to
+0-360 degrees. Axes which didn't change since the last message aren't
+sent at all. The client's clock only goes with the JSON events.
+
+*/
+
+import { Vector3Component } from "decentraland-api";
+import { IAxisBounds, ISceneBounds } from "./bounds";
+
+const clamp = require("lodash/clamp");
+
+/**
+ * The client asks for one of these when it connects
+ */
+export type WireProtocol = "json" | "binary";
+
+/**
+ * The server confirms which protocol it will use for the socket
+ */
+export interface IWireProtocolEvent {
+  protocol: WireProtocol;
+}
+
+/**
+ * Event names for the binary versions of character-position/rotation
+ */
+export const positionBinaryEvent: string = "character-position-bin";
+export const rotationBinaryEvent: string = "character-rotation-bin";
+
+/**
+ * The JSON event a binary one stands for, so they share a rate limit
+ */
+export function jsonEventName(eventName: string): string {
+  if (eventName === positionBinaryEvent) {
+    return "character-position";
+  }
+
+  if (eventName === rotationBinaryEvent) {
+    return "character-rotation";
+  }
+
+  return eventName;
+}
+
+export const positionKind: number = 1;
+export const rotationKind: number = 2;
+
+/**
+ * Slots fit in a u16 and 0 is reserved for "the sender"
+ */
+export const maxSlot: number = 65535;
+
+/**
+ * {x,y,z} as three u16 numbers
+ */
+export type QuantizedVector3 = [number, number, number];
+
+/**
+ * What comes out of decoding one message
+ */
+export interface IDecodedVector3 {
+  kind: number;
+  slot: number;
+  quantized: QuantizedVector3;
+  seq?: number;
+}
+
+const maxQuantized = 65535;
+const headerBytes = 4;
+const seqBytes = 4;
+const axisBits = [1, 2, 4];
+const allAxes = 7;
+const seqBit = 8;
+
+/**
+ * True if the client asked for a protocol we know
+ */
+export const isValidWireProtocol = (protocol: string): boolean =>
+  protocol === "json" || protocol === "binary";
+
+/**
+ * Slots are whole numbers from 1 to 65535
+ */
+export const isValidSlot = (slot: number): boolean =>
+  Number.isInteger(slot) === true && slot > 0 && slot <= maxSlot;
+
+const quantizeNumber = (num: number, axis: IAxisBounds): number =>
+  Math.round(((num - axis.min) / (axis.max - axis.min)) * maxQuantized);
+
+const dequantizeNumber = (num: number, axis: IAxisBounds): number =>
+  axis.min + (num / maxQuantized) * (axis.max - axis.min);
+
+const isQuantizable = (num: number, axis: IAxisBounds): boolean =>
+  num >= axis.min && num <= axis.max;
+
+/**
+ * Quantize a position relative to the bounds. Positions outside the
+ * bounds can't be represented so it returns undefined and they go as JSON.
+ */
+export function quantizePosition(
+  position: Vector3Component,
+  bounds: ISceneBounds
+): QuantizedVector3 | undefined {
+  if (
+    isQuantizable(position.x, bounds.x) === false ||
+    isQuantizable(position.y, bounds.y) === false ||
+    isQuantizable(position.z, bounds.z) === false
+  ) {
+    return undefined;
+  }
+
+  return [
+    quantizeNumber(position.x, bounds.x),
+    quantizeNumber(position.y, bounds.y),
+    quantizeNumber(position.z, bounds.z),
+  ];
+}
+
+export const dequantizePosition = (
+  quantized: QuantizedVector3,
+  bounds: ISceneBounds
+): Vector3Component => ({
+  x: dequantizeNumber(quantized[0], bounds.x),
+  y: dequantizeNumber(quantized[1], bounds.y),
+  z: dequantizeNumber(quantized[2], bounds.z),
+});
+
+const degrees: IAxisBounds = { min: 0, max: 360 };
+const normalizeDegrees = (num: number): number => ((num % 360) + 360) % 360;
+
+/**
+ * Rotations are degrees so they always fit after wrapping them to 0-360
+ */
+export const quantizeRotation = (
+  rotation: Vector3Component
+): QuantizedVector3 =>
+  [
+    quantizeNumber(normalizeDegrees(rotation.x), degrees),
+    quantizeNumber(normalizeDegrees(rotation.y), degrees),
+    quantizeNumber(normalizeDegrees(rotation.z), degrees),
+  ].map((num) => num % maxQuantized) as QuantizedVector3;
+
+export const dequantizeRotation = (
+  quantized: QuantizedVector3
+): Vector3Component => ({
+  x: dequantizeNumber(quantized[0], degrees),
+  y: dequantizeNumber(quantized[1], degrees),
+  z: dequantizeNumber(quantized[2], degrees),
+});
+
+/**
+ * Encode only the axes which changed since `previous`. Without `previous`
+ * all the axes are sent. Returns undefined if nothing changed.
+ *
+ * It's an ArrayBuffer because socket.io only sends those and Buffers as
+ * binary, typed arrays would turn into JSON objects.
+ */
+export function encodeVector3(
+  kind: number,
+  slot: number,
+  quantized: QuantizedVector3,
+  previous?: QuantizedVector3,
+  seq?: number
+): ArrayBuffer | undefined {
+  const axes = [0, 1, 2].filter(
+    (index) => previous === undefined || quantized[index] !== previous[index]
+  );
+
+  if (axes.length === 0) {
+    return undefined;
+  }
+
+  const axesOffset = headerBytes + (seq !== undefined ? seqBytes : 0);
+  const data = new Uint8Array(axesOffset + axes.length * 2);
+  const view = new DataView(data.buffer);
+  const mask = axes.reduce((sum, index) => sum + axisBits[index], 0);
+  view.setUint8(0, kind);
+  view.setUint16(1, slot);
+  view.setUint8(3, seq !== undefined ? mask + seqBit : mask);
+
+  if (seq !== undefined) {
+    view.setUint32(headerBytes, seq);
+  }
+
+  axes.forEach((index, offset) => {
+    view.setUint16(
+      axesOffset + offset * 2,
+      clamp(quantized[index], 0, maxQuantized)
+    );
+  });
+
+  return data.buffer;
+}
+
+/**
+ * Both ArrayBuffer (browsers) and Buffer (node) can arrive
+ */
+function toDataView(data: ArrayBuffer | Uint8Array): DataView | undefined {
+  if (data instanceof ArrayBuffer) {
+    return new DataView(data);
+  }
+
+  if (ArrayBuffer.isView(data) === true) {
+    return new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  return undefined;
+}
+
+/**
+ * Peek at the slot so we know which character a message is about before
+ * decoding it
+ */
+export function readSlot(data: ArrayBuffer | Uint8Array): number | undefined {
+  const view = toDataView(data);
+
+  if (view === undefined || view.byteLength < headerBytes) {
+    return undefined;
+  }
+
+  return view.getUint16(1);
+}
+
+/**
+ * Decode a message filling the axes it doesn't have from `previous`.
+ * Returns undefined when the data is malformed or when it needs a
+ * `previous` we don't have.
+ */
+export function decodeVector3(
+  data: ArrayBuffer | Uint8Array,
+  previous?: QuantizedVector3
+): IDecodedVector3 | undefined {
+  const view = toDataView(data);
+
+  if (view === undefined || view.byteLength < headerBytes) {
+    return undefined;
+  }
+
+  const kind = view.getUint8(0);
+  const slot = view.getUint16(1);
+  const flags = view.getUint8(3);
+  const mask = flags & allAxes;
+  const hasSeq = (flags & seqBit) !== 0;
+  const axesOffset = headerBytes + (hasSeq === true ? seqBytes : 0);
+  const axes = [0, 1, 2].filter((index) => (mask & axisBits[index]) !== 0);
+
+  if (
+    (kind !== positionKind && kind !== rotationKind) ||
+    mask === 0 ||
+    flags > allAxes + seqBit ||
+    view.byteLength !== axesOffset + axes.length * 2 ||
+    (previous === undefined && mask !== allAxes)
+  ) {
+    return undefined;
+  }
+
+  const quantized: QuantizedVector3 =
+    previous !== undefined
+      ? [previous[0], previous[1], previous[2]]
+      : [0, 0, 0];
+
+  axes.forEach((index, offset) => {
+    quantized[index] = view.getUint16(axesOffset + offset * 2);
+  });
+
+  if (hasSeq === true) {
+    return { kind, slot, quantized, seq: view.getUint32(headerBytes) };
+  }
+
+  return { kind, slot, quantized };
+}
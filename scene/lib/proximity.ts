@@ -0,0 +1,164 @@
+/*
+
+Proximity triggers react to characters coming close to something, like
+the tiles lighting up or the door opening. A zone is a circle or a
+rectangle on the ground. Characters are in it when they're closer than
+`enterDistance`, and once it's active they stay in it until they're
+`exitDistance` away so it doesn't flicker when someone stands on the
+edge.
+
+*/
+
+import { Vector3Component } from "decentraland-api";
+import { Character } from "./character";
+import { distance } from "./formats";
+
+/**
+ * Everything within the radius of `center` when `enterDistance` is the
+ * radius
+ */
+export interface ICircleShape {
+  kind: "circle";
+  center: Vector3Component;
+}
+
+/**
+ * A `width` along x by `depth` along z rectangle around `center`,
+ * distances are measured from its edge
+ */
+export interface IRectShape {
+  kind: "rect";
+  center: Vector3Component;
+  width: number;
+  depth: number;
+}
+
+export type ZoneShape = ICircleShape | IRectShape;
+
+/**
+ * A character in a zone and how far it is from it
+ */
+export interface IZoneOccupant {
+  id: string;
+  distance: number;
+}
+
+export interface IProximityZone {
+  id: string;
+  shape: ZoneShape;
+  enterDistance: number;
+  // defaults to `enterDistance` so there's no hysteresis
+  exitDistance?: number;
+  // the first character came close
+  onEnter?: (occupants: IZoneOccupant[]) => void;
+  // the last character went away
+  onExit?: () => void;
+  // anyone in it came, went, or moved
+  onChange?: (occupants: IZoneOccupant[]) => void;
+}
+
+export interface IProximityZoneHashTable {
+  [key: string]: IProximityZone;
+}
+
+export interface IZoneOccupantHashTable {
+  [key: string]: IZoneOccupant[];
+}
+
+/**
+ * How far a position is from a zone, it's 0 inside a rectangle
+ *
+ * Note: It uses {x,z} like `distance`.
+ */
+export function zoneDistance(
+  shape: ZoneShape,
+  position: Vector3Component
+): number {
+  const { center } = shape;
+
+  if (shape.kind === "rect") {
+    const a = Math.max(Math.abs(position.x - center.x) - shape.width / 2, 0);
+    const b = Math.max(Math.abs(position.z - center.z) - shape.depth / 2, 0);
+    return Math.sqrt(a * a + b * b);
+  }
+
+  return distance(position, center);
+}
+
+/**
+ * Active zones keep characters until `exitDistance`
+ */
+export const zoneThreshold = (zone: IProximityZone, active: boolean) =>
+  active === true && zone.exitDistance !== undefined
+    ? zone.exitDistance
+    : zone.enterDistance;
+
+/**
+ * The characters in a zone, closest first
+ */
+export function zoneOccupants(
+  zone: IProximityZone,
+  characters: Character[],
+  active: boolean
+): IZoneOccupant[] {
+  const threshold = zoneThreshold(zone, active);
+
+  return characters
+    .map((char) => ({
+      distance: zoneDistance(zone.shape, char.position),
+      id: char.id,
+    }))
+    .filter((occupant) => occupant.distance < threshold)
+    .sort((a, b) => a.distance - b.distance);
+}
+
+export class ProximityTriggers {
+  public zones: IProximityZoneHashTable = {};
+  public occupants: IZoneOccupantHashTable = {};
+
+  public addZone(zone: IProximityZone): void {
+    this.zones[zone.id] = zone;
+    this.occupants[zone.id] = [];
+  }
+
+  public removeZone(id: string): void {
+    delete this.zones[id];
+    delete this.occupants[id];
+  }
+
+  public isActive(id: string): boolean {
+    const occupants = this.occupants[id];
+    return occupants !== undefined && occupants.length > 0;
+  }
+
+  /**
+   * Find who is in every zone now and call back the ones which changed
+   */
+  public evaluate(characters: Character[]): void {
+    const { occupants, zones } = this;
+
+    Object.keys(zones).forEach((id) => {
+      const zone = zones[id];
+      const wasActive = this.isActive(id);
+      const previous = occupants[id];
+      const current = zoneOccupants(zone, characters, wasActive);
+      const isActive = current.length > 0;
+      occupants[id] = current;
+
+      if (wasActive === false && isActive === true && zone.onEnter) {
+        zone.onEnter(current);
+      }
+
+      if (wasActive === true && isActive === false && zone.onExit) {
+        zone.onExit();
+      }
+
+      if (
+        zone.onChange &&
+        JSON.stringify(previous) !== JSON.stringify(current)
+      ) {
+        zone.onChange(current);
+      }
+    });
+  }
+}
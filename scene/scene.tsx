@@ -8,17 +8,85 @@ and displays for the user.
 import * as DCL from "decentraland-api";
 import { Vector3Component } from "decentraland-api";
 import * as io from "socket.io-client";
+import { ISceneBounds } from "./lib/bounds";
 import { Character } from "./lib/character";
 import {
+  CharacterAction,
   CharacterManager,
+  CharacterUpdateField,
+  IBannedEvent,
+  ICharacterActionEvent,
+  ICharacterAttributesEvent,
+  ICharacterIdentityEvent,
   ICharacterJoinEvent,
+  ICharacterLatencyEvent,
   ICharacterPartEvent,
+  ICharacterPongEvent,
   ICharacterPositionEvent,
   ICharacterRotationEvent,
+  ICharacterSnapshotEvent,
   ICharacterUsernameEvent,
+  IEventRejectedEvent,
+  IRateLimitedEvent,
+  IResyncEvent,
+  ISequencedEvent,
+  IWorldDiffEvent,
+  IWorldSnapshotEvent,
+  staleUpdateError,
 } from "./lib/character-manager";
-import { socketHost, socketPath } from "./lib/config";
-import { isValidBoundedVector3Component, isValidUsername } from "./lib/formats";
+import {
+  ChatManager,
+  IChatHistoryEvent,
+  IChatMessageEvent,
+} from "./lib/chat-manager";
+import { ClockSync, measureClock } from "./lib/clock";
+import {
+  actionDurationMs,
+  defaultRoom,
+  doorClosedX,
+  doorOpenX,
+  doorZ,
+  pingIntervalMs,
+  renderIntervalMs,
+  socketHost,
+  socketPath,
+} from "./lib/config";
+import {
+  createDoor,
+  EntityManager,
+  IDoorState,
+  IEntity,
+  IEntitySnapshotEvent,
+} from "./lib/entity-manager";
+import { EventAck, IEventAck, IEventError } from "./lib/errors";
+import {
+  distance,
+  isValidChatText,
+  isValidId,
+  isValidSceneBounds,
+  isValidToken,
+  isValidUsername,
+  randomUsername,
+} from "./lib/formats";
+import { Interpolator } from "./lib/interpolation";
+import {
+  decodeVector3,
+  dequantizePosition,
+  dequantizeRotation,
+  encodeVector3,
+  isValidWireProtocol,
+  IWireProtocolEvent,
+  positionBinaryEvent,
+  positionKind,
+  QuantizedVector3,
+  quantizePosition,
+  quantizeRotation,
+  readSlot,
+  rotationBinaryEvent,
+  rotationKind,
+  WireProtocol,
+} from "./lib/protocol";
+import { IZoneOccupant, ProximityTriggers } from "./lib/proximity";
 
 const clamp = require("lodash/clamp");
 const padEnd = require("lodash/padEnd");
@@ -26,8 +94,21 @@ const throttle = require("lodash/throttle");
 const debounce = require("lodash/debounce");
 const random = require("lodash/random");
 
+/**
+ * What the server reads from the handshake, the id and token only when
+ * we want our character back
+ */
+export interface ISocketQuery {
+  protocol: WireProtocol;
+  room: string;
+  id?: string;
+  token?: string;
+}
+
 export interface IState {
   billboardText: string;
+  chatInputText: string;
+  chatText: string;
   connected: boolean;
   doorPosition: Vector3Component;
   doorTransition: any; // this wont work as TransitionComponent 🤷‍
@@ -38,6 +119,7 @@ export interface IState {
   tileColors: string[];
   tilePositions: Vector3Component[];
   usernameInputText: string;
+  usernameMessage: string;
   usernameTextboxBackground: string;
 }
 
@@ -51,6 +133,13 @@ const ghostRadius = 0.6;
 const ghostScale = { x: 1, y: 0.5, z: 1 };
 const ghostColor = "#EFEFEF";
 
+// how high a ghost jumps and how far it leans when it waves
+const ghostJumpHeight = 0.8;
+const ghostWaveAngle = 20;
+
+// the buttons to wave, jump, and point at whoever is closest
+const actionButtons: CharacterAction[] = ["wave", "jump", "point"];
+
 const ghostMaterial = (
   <material
     id="ghost-material"
@@ -74,6 +163,7 @@ const textOutlineColor = "#000000";
 const textOutlineWidth = 1;
 const usernameValidBackground = "#FFFFFF";
 const usernameInvalidBackground = "#FFCCCC";
+const usernameDefaultMessage = "Change your username";
 
 //
 // "sign" is like the billboard or other UI in the scene
@@ -109,6 +199,9 @@ const defaultTilePositions: Vector3Component[] = [];
 const defaultTileY = 10;
 const defaultTileColors: string[] = [];
 
+// how close characters have to be to a tile to light it up
+const tileLightDistance = 3;
+
 const tileTransition = {
   color: {
     duration: 500,
@@ -160,8 +253,6 @@ const doorMaterial = (
   />
 );
 
-const doorClosedX = 5;
-const doorOpenX = 3;
 const doorScale = { x: 2.01, y: 3, z: 0.01 };
 
 //
@@ -178,6 +269,22 @@ const billboardBackgroundBox = (
   />
 );
 
+//
+// the chat billboard next to it shows the last few lines said in the room
+//
+
+const chatBillboardLines = 8;
+
+const chatBillboardBackgroundBox = (
+  <box
+    id="chat-billboard-bg"
+    position={{ x: 8.5, y: 4, z: 9 }}
+    scale={{ x: 2.6, y: 1.5, z: 0.01 }}
+    rotation={{ x: -50, y: 0, z: 0 }}
+    material="#sign-material"
+  />
+);
+
 /**
  * Instantiate the tiles just above the board
  */
@@ -194,34 +301,35 @@ for (let a = gridMin; a < gridMax; a += 1) {
 }
 
 /**
- * Pythagoras' theorem implementation
- *
- * Note: It uses {x,z} not {x,y}. The y-coordinate is how high up it is.
- */
-function distance(pos1: Vector3Component, pos2: Vector3Component): number {
-  const a = pos1.x - pos2.x;
-  const b = pos1.z - pos2.z;
-  return Math.sqrt(a * a + b * b);
-}
-
-/**
- * Returns true if the character is inside the configured bounds, 0 to 10
+ * Returns true if the character is inside the scene bounds
  *
- * See ./config.ts
+ * CharacterManager sets the flag following `boundsPolicy` in ./config.ts
  */
-const charInBounds = (char: Character) =>
-  isValidBoundedVector3Component(char.position) === true;
+const charInBounds = (char: Character) => char.inBounds === true;
 
 //
 // CharacterManager holds information about the other characters
 //
 const characterManager = new CharacterManager();
 
+//
+// EntityManager holds the shared objects the server decides about
+//
+const entityManager = new EntityManager();
+entityManager.addEntity(createDoor());
+
+//
+// ChatManager holds what was said in the room lately
+//
+const chatManager = new ChatManager();
+
 export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
   public state: IState = {
     billboardText: "",
+    chatInputText: "",
+    chatText: "",
     connected: false,
-    doorPosition: { x: 5, y: 10, z: 0.5 },
+    doorPosition: { x: doorClosedX, y: 10, z: doorZ },
     doorTransition: {
       position: {
         duration: 1000,
@@ -234,12 +342,38 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
     tileColors: defaultTileColors,
     tilePositions: defaultTilePositions,
     usernameInputText: "",
+    usernameMessage: usernameDefaultMessage,
     usernameTextboxBackground: usernameValidBackground,
   };
 
   // representing the viewer of this scene
   private character = new Character();
 
+  // the server issues our id, and a token for it, each time we connect
+  private identity: ICharacterIdentityEvent | undefined;
+
+  // the version of the world we last synced to, resyncs start from here
+  private worldVersion: number | undefined;
+
+  // numbers everything we send about our character, it carries on across
+  // reconnects so the server can drop what arrives late
+  private seq: number = 0;
+
+  // our round trip and clock offset to the server, from the pongs
+  private clockSync = new ClockSync();
+
+  // what to go back to when the server refuses a new username
+  private previousUsername: string = "";
+
+  // everyone else's recent positions and rotations, to draw them smoothly
+  private interpolator = new Interpolator();
+
+  // a zone around every tile to light it up when characters come close
+  private tileTriggers = new ProximityTriggers();
+
+  // ask for the compact binary position and rotation events in our room
+  private socketQuery: ISocketQuery = { protocol: "binary", room: defaultRoom };
+
   // socket.io must uses CORS to connect across origins
   private socket = io(socketHost, {
     autoConnect: false,
@@ -251,141 +385,66 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
     reconnectionAttempts: 30,
     // only use websockets, not polling
     transports: ["websocket"],
+    query: this.socketQuery,
   });
 
+  // JSON until the server confirms it does binary
+  private wireProtocol: WireProtocol = "json";
+
+  // the binary protocol only sends axes which changed since these
+  private lastSentPosition: QuantizedVector3 | undefined;
+  private lastSentRotation: QuantizedVector3 | undefined;
+
   /**
    * When characters are in proximity to a tile it should light up.
    *
    * It's throttled just in case this is a very heavy computation.
    */
   private generateTileColors = throttle((): void => {
-    const { character, state } = this;
-    let { tileColors } = state;
-    const { tilePositions } = state;
-    const charPos = character.position;
-
-    tileColors = tileColors.map((existingColor, index) => {
-      const tilePos = tilePositions[index];
-      let colorByte = 34;
-
-      // get the distance of the viewing user to the tile
-      const characterDistance = distance(charPos, tilePos);
-
-      // calculate all remote users distances
-      const otherCharacterDistances: number[] = characterManager
-        .characterList()
-        .filter(charInBounds)
-        .map((otherChar) => distance(otherChar.position, tilePos))
-        .filter((num) => num < 2);
-
-      /**
-       * The closer the more it should light up. The idea here is to
-       * keep incrementing it even if it goes over a valid byte.
-       *
-       * The result is then clamped to the byte value range we need.
-       */
-      if (characterDistance < 1) {
-        colorByte += 200;
-      } else if (characterDistance < 2) {
-        colorByte += 100;
-      } else if (characterDistance < 3) {
-        colorByte += 50;
-      }
-
-      otherCharacterDistances.forEach((item) => {
-        if (item < 1) {
-          colorByte += 200;
-        } else if (item < 2) {
-          colorByte += 100;
-        } else if (item < 3) {
-          colorByte += 50;
-        }
-      });
-
-      // clamp
-      colorByte = clamp(colorByte, 34, 255);
-
-      // convert to hex
-      const hexByte = colorByte.toString(16);
-
-      // convert to monochrome hex color
-      return `#${hexByte}${hexByte}${hexByte}`;
-    });
-
-    this.setState({ tileColors });
+    const characters = characterManager.characterList().filter(charInBounds);
+    this.tileTriggers.evaluate([this.character, ...characters]);
   }, 100);
 
   /**
-   * Open the door if any players are near it.
+   * Sometimes a character sends coordinates but a client doesn't know who
+   * they are yet. This asks the server for whatever changed since the
+   * version of the world we have.
    */
-  private triggerAutomaticDoor = throttle((): void => {
-    const { character, state } = this;
-    let { doorPosition } = state;
-    const { x, y, z } = doorPosition;
-    const isOpen = x === doorOpenX;
-
-    // Q: Why change the activation distance?
-    // A: Because the door can be farther away when it's open!
-    const activateDistance = isOpen === true ? 4 : 3;
-
-    // get the distance of the viewing user to the tile
-    const characterDistance = distance(character.position, doorPosition);
-
-    // calculate all remote users distances
-    const otherCharacterDistances: number[] = characterManager
-      .characterList()
-      .filter(charInBounds)
-      .map((otherChar) => distance(otherChar.position, doorPosition))
-      .filter((num) => num < activateDistance);
-
-    // is the viewing player close enough?
-    // are any network players close enough?
-    const closeEnough =
-      characterDistance < activateDistance ||
-      otherCharacterDistances.length > 0;
-
-    // close it if not closed
-    if (closeEnough === false && x !== doorClosedX) {
-      doorPosition = {
-        x: doorClosedX,
-        y,
-        z,
-      };
-      this.setState({ doorPosition });
-    }
-
-    // open it if not open
-    if (closeEnough === true && x !== doorOpenX) {
-      doorPosition = {
-        x: doorOpenX,
-        y,
-        z,
-      };
-      return this.setState({ doorPosition });
-    }
-  }, 100);
+  private resync = throttle(() => {
+    // console.log("resync");
+    const { worldVersion } = this;
+    const resyncEvent: IResyncEvent = {
+      version: worldVersion !== undefined ? worldVersion : -1,
+    };
+    this.socket.emit("resync", resyncEvent);
+  }, 1000);
 
   /**
-   * Sometimes a character sends coordinates but a client doesn't know who
-   * they are yet. This will signal it needs to be introduced to whoever
-   * is missing from the scene.
+   * Join again once however many of our updates the server refused
    */
-  private introduce = throttle(() => {
-    // console.log("introduce");
-    this.socket.emit("introduce");
-  }, 1000);
+  private rejoin = throttle(() => this.join(), 1000, { trailing: false });
 
   /**
-   * Set the billboard text, change tile colors, and see if we need to
-   * open or close the door. It's throttled so it wont crush the CPU
-   * or try to draw too many things into the scene breaking it.
+   * Set the billboard text and change tile colors. It's throttled so it
+   * wont crush the CPU or try to draw too many things into the scene
+   * breaking it.
    */
   private eventUpdate = throttle(() => {
     this.generateBillboardText();
     this.generateTileColors();
-    this.triggerAutomaticDoor();
   }, 200);
 
+  private chatTextboxChanged = debounce((evt: any): void => {
+    if (
+      evt !== undefined &&
+      evt.data !== undefined &&
+      evt.data.value !== undefined &&
+      typeof evt.data.value === "string"
+    ) {
+      this.setState({ chatInputText: evt.data.value });
+    }
+  }, 100);
+
   private usernameTextboxChanged = debounce((evt: any): void => {
     if (
       evt !== undefined &&
@@ -398,13 +457,23 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
 
       if (isValidUsername(usernameInputText) === true) {
         usernameTextboxBackground = usernameValidBackground;
+        this.previousUsername = this.character.username;
         this.character.username = usernameInputText;
         const username = usernameInputText;
         const { id } = this.character;
-        this.socket.emit("character-username", { id, username });
+        this.socket.emit(
+          "character-username",
+          this.sequenced({ id, username }),
+          this.eventAck("character-username")
+        );
       }
 
-      this.setState({ usernameInputText, usernameTextboxBackground });
+      const usernameMessage = usernameDefaultMessage;
+      this.setState({
+        usernameInputText,
+        usernameMessage,
+        usernameTextboxBackground,
+      });
     }
   }, 100);
 
@@ -423,17 +492,39 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
       socketError,
       socketDisconnected,
       socketReconnect,
+      eventRejected,
+      rateLimited,
+      banned,
+      characterIdentity,
+      sceneBounds,
       characterJoin,
       characterPart,
       characterUsername,
       characterPosition,
       characterRotation,
+      characterSnapshot,
+      characterPong,
+      characterLatency,
+      worldSnapshot,
+      worldDiff,
+      entityState,
+      entitySnapshot,
+      characterPositionBinary,
+      characterRotationBinary,
+      wireProtocolChanged,
       frameworkPositionChanged,
       frameworkRotationChanged,
       usernameTextboxChanged,
+      chatMessage,
+      chatHistory,
+      chatTextboxChanged,
+      chatSendClicked,
+      characterAction,
+      characterAttributes,
+      actionClicked,
       character,
     } = this;
-    const { id, username } = character;
+    const { username } = character;
     const { connected } = socket;
     const usernameInputText = username;
 
@@ -458,11 +549,69 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
     socket.on("reconnecting", socketReconnect.bind(this));
     socket.on("reconnect_error", socketError.bind(this));
     socket.on("reconnect_failed", socketError.bind(this));
+    socket.on("event-rejected", eventRejected.bind(this));
+    socket.on("rate-limited", rateLimited.bind(this));
+    socket.on("banned", banned.bind(this));
+    socket.on("character-identity", characterIdentity.bind(this));
+    socket.on("scene-bounds", sceneBounds.bind(this));
     socket.on("character-join", characterJoin.bind(this));
     socket.on("character-part", characterPart.bind(this));
     socket.on("character-username", characterUsername.bind(this));
     socket.on("character-position", characterPosition.bind(this));
     socket.on("character-rotation", characterRotation.bind(this));
+    socket.on("character-snapshot", characterSnapshot.bind(this));
+    socket.on("character-pong", characterPong.bind(this));
+    socket.on("character-latency", characterLatency.bind(this));
+    socket.on("world-snapshot", worldSnapshot.bind(this));
+    socket.on("world-diff", worldDiff.bind(this));
+    socket.on("entity-state", entityState.bind(this));
+    socket.on("entity-snapshot", entitySnapshot.bind(this));
+    socket.on("chat-message", chatMessage.bind(this));
+    socket.on("character-action", characterAction.bind(this));
+    socket.on("character-attributes", characterAttributes.bind(this));
+    socket.on("chat-history", chatHistory.bind(this));
+    socket.on(positionBinaryEvent, characterPositionBinary.bind(this));
+    socket.on(rotationBinaryEvent, characterRotationBinary.bind(this));
+    socket.on("wire-protocol", wireProtocolChanged.bind(this));
+
+    // ghosts which go idle expire on their own so redraw without them
+    characterManager.on("part", (partEvent: ICharacterPartEvent) => {
+      this.interpolator.forget(partEvent.id);
+      this.eventUpdate();
+    });
+
+    // the server opens and closes the door for everyone
+    entityManager.on("change", (entity: IEntity) => this.entityChanged(entity));
+
+    // light up the tiles as characters come close
+    defaultTilePositions.forEach((center, index) =>
+      this.tileTriggers.addZone({
+        enterDistance: tileLightDistance,
+        id: `tile-${index}`,
+        onChange: (occupants) => this.lightTile(index, occupants),
+        shape: { kind: "circle", center },
+      })
+    );
+
+    // buffer where everyone else goes so they can be drawn smoothly
+    characterManager.on("join", (char: Character) =>
+      this.bufferCharacter(char, "join")
+    );
+    characterManager.on(
+      "update",
+      (char: Character, field: CharacterUpdateField) =>
+        this.bufferCharacter(char, field)
+    );
+
+    // redraw while the ghosts are still moving between updates or acting
+    setInterval(() => {
+      if (
+        this.interpolator.isMoving() === true ||
+        this.isAnyoneActing() === true
+      ) {
+        this.forceUpdate();
+      }
+    }, renderIntervalMs);
 
     // autoConnect is disabled so we can wire up the events before
     // anything gets sent here
@@ -479,10 +628,40 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
       usernameTextboxChanged.bind(this)
     );
 
+    // type a chat message and click send
+    this.eventSubscriber.on(
+      "chat-editor-textbox_changed",
+      chatTextboxChanged.bind(this)
+    );
+    this.eventSubscriber.on(
+      "chat-editor-send_click",
+      chatSendClicked.bind(this)
+    );
+
+    // wave, jump, or point
+    actionButtons.forEach((action) =>
+      this.eventSubscriber.on(`action-${action}_click`, () =>
+        actionClicked.call(this, action)
+      )
+    );
+
     this.setState({ connected, usernameInputText });
 
     // We do a keep-alive type action so the server doesn't remove us
-    setInterval(() => this.socket.emit("character-ping", { id }), 5000);
+    // and it tells the server the round trip we measured so far
+    setInterval(() => {
+      const { id } = this.character;
+      const latency = this.clockSync.latency();
+      this.socket.emit(
+        "character-ping",
+        this.sequenced({ id, latency }),
+        this.eventAck("character-ping")
+      );
+
+      // every so often send all the axes in case the server missed some
+      this.lastSentPosition = undefined;
+      this.lastSentRotation = undefined;
+    }, pingIntervalMs);
 
     // move the tiles down
     this.transitionTilesDown();
@@ -506,16 +685,24 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
         {doorMaterial}
         {billboardBackgroundBox}
         {this.drawUsernameBillboard()}
+        {chatBillboardBackgroundBox}
+        {this.drawChatBillboard()}
         {this.drawCharacterBoxes()}
         {this.drawTiles()}
         {this.drawAutomaticDoor()}
         {this.drawUsernameEditor()}
+        {this.drawChatEditor()}
+        {this.drawActionButtons()}
       </scene>
     );
   }
 
   private drawUsernameEditor(): DCL.ISimplifiedNode[] {
-    const { usernameInputText, usernameTextboxBackground } = this.state;
+    const {
+      usernameInputText,
+      usernameMessage,
+      usernameTextboxBackground,
+    } = this.state;
 
     const background = (
       <box
@@ -540,7 +727,7 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
         fontSize={50}
         width={1.5}
         height={0.4}
-        value="Change your username"
+        value={usernameMessage}
       />
     );
 
@@ -564,6 +751,105 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
     return [background, message, textbox];
   }
 
+  /**
+   * A row of buttons above the username editor
+   */
+  private drawActionButtons(): DCL.ISimplifiedNode[][] {
+    return actionButtons.map((action, index) => {
+      const x = 4.5 + index * 0.5;
+
+      const button = (
+        <box
+          id={`action-${action}`}
+          key={`action-${action}`}
+          position={{ x, y: 1.65, z: 9.64 }}
+          rotation={{ x: 30, y: 0, z: 0 }}
+          scale={{ x: 0.45, y: 0.25, z: 0.02 }}
+          material="#door-material"
+        />
+      );
+
+      const label = (
+        <text
+          key={`action-${action}-text`}
+          position={{ x, y: 1.65, z: 9.61 }}
+          rotation={{ x: 30, y: 0, z: 0 }}
+          color={textColor}
+          fontFamily={textFontFamily}
+          outlineColor={textOutlineColor}
+          outlineWidth={textOutlineWidth}
+          fontSize={40}
+          width={0.45}
+          height={0.25}
+          value={action}
+        />
+      );
+
+      return [button, label];
+    });
+  }
+
+  private drawChatEditor(): DCL.ISimplifiedNode[] {
+    const { chatInputText } = this.state;
+
+    const background = (
+      <box
+        id="chat-editor-background"
+        position={{ x: 8, y: 1, z: 9.5 }}
+        rotation={{ x: 30, y: 0, z: 0 }}
+        scale={{ x: 2.5, y: 0.8, z: 0.01 }}
+        material="#sign-material"
+        withCollisions={true}
+      />
+    );
+
+    const textbox = (
+      <input-text
+        id="chat-editor-textbox"
+        position={{ x: 7.7, y: 0.9, z: 9.43 }}
+        rotation={{ x: 30, y: 0, z: 0 }}
+        color={textInputColor}
+        fontFamily={textFontFamily}
+        fontSize={50}
+        width={1.7}
+        height={0.6}
+        background="#EFEFEF"
+        focusedBackground={usernameValidBackground}
+        outlineWidth={3}
+        maxLength={200}
+        value={chatInputText}
+      />
+    );
+
+    const sendButton = (
+      <box
+        id="chat-editor-send"
+        position={{ x: 9, y: 0.9, z: 9.43 }}
+        rotation={{ x: 30, y: 0, z: 0 }}
+        scale={{ x: 0.5, y: 0.4, z: 0.02 }}
+        material="#door-material"
+      />
+    );
+
+    const sendText = (
+      <text
+        id="chat-editor-send-text"
+        position={{ x: 9, y: 0.9, z: 9.4 }}
+        rotation={{ x: 30, y: 0, z: 0 }}
+        color={textColor}
+        fontFamily={textFontFamily}
+        outlineColor={textOutlineColor}
+        outlineWidth={textOutlineWidth}
+        fontSize={50}
+        width={0.5}
+        height={0.4}
+        value="Send"
+      />
+    );
+
+    return [background, textbox, sendButton, sendText];
+  }
+
   /**
    * When the scene loads it will drop in the door and walls.
    */
@@ -650,8 +936,8 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
   }
 
   /**
-   * The automatic door opens and closes depending on where other players
-   * are moving around in the scene.
+   * The automatic door opens and closes when the server says players are
+   * near it.
    */
   private drawAutomaticDoor(): DCL.ISimplifiedNode[] {
     const {
@@ -705,10 +991,14 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
    * view of all the character names.
    */
   private generateBillboardText(): void {
-    const { character } = this;
+    const { character, clockSync } = this;
+    const latencyText = (username: string, latency?: number): string =>
+      latency !== undefined && latency > 0
+        ? `${username} ${latency}ms`
+        : username;
     const usernames: string[] = characterManager
       .characterList()
-      .map((item) => item.username);
+      .map((item) => latencyText(item.username, item.latency));
     const playerCount = usernames.length + 1;
     let row: string[] = [];
     const { connected, reconnects } = this.state;
@@ -723,7 +1013,7 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
     billboardText += "\n---------------------------------------";
 
     // the viewing user is first
-    row.push(padEnd(character.username, 20));
+    row.push(padEnd(latencyText(character.username, clockSync.latency()), 20));
 
     function flush(): void {
       billboardText += "\n" + row.join(" | ");
@@ -752,9 +1042,56 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
    */
   private join(): void {
     // console.log("join");
-    const { character } = this;
-    const { id, username, position, rotation } = character;
-    this.socket.emit("character-join", { id, username, position, rotation });
+    const { character, identity } = this;
+
+    // wait until the server tells us who we are
+    if (identity === undefined) {
+      return;
+    }
+
+    const { id, username, position, rotation, attributes } = character;
+    this.socket.emit(
+      "character-join",
+      this.sequenced({ id, username, position, rotation, attributes }),
+      this.eventAck("character-join")
+    );
+  }
+
+  /**
+   * Ask the server to answer an event so we hear why it was refused.
+   * Positions and rotations go without one, there are too many of them,
+   * and their refusals come as `event-rejected` instead.
+   */
+  private eventAck(eventName: string): EventAck {
+    return (ack: IEventAck) => {
+      if (ack !== undefined && ack.ok === false && ack.error !== undefined) {
+        this.eventFailed(eventName, ack.error);
+      }
+    };
+  }
+
+  /**
+   * Remember someone else's new position or rotation along with when it
+   * arrived
+   */
+  private bufferCharacter(char: Character, field: CharacterUpdateField): void {
+    const { interpolator } = this;
+
+    if (field === "join" || field === "position") {
+      interpolator.addPosition(char.id, char.position);
+    }
+
+    if (field === "join" || field === "rotation") {
+      interpolator.addRotation(char.id, char.rotation);
+    }
+  }
+
+  /**
+   * Add the next sequence number and our clock to an event
+   */
+  private sequenced<T>(evt: T): T & ISequencedEvent {
+    this.seq += 1;
+    return Object.assign({}, evt, { seq: this.seq, sentAt: Date.now() });
   }
 
   /**
@@ -762,7 +1099,7 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
    */
   private part(): void {
     const { id } = this.character;
-    this.socket.emit("character-part", { id });
+    this.socket.emit("character-part", this.sequenced({ id }));
   }
 
   //
@@ -772,7 +1109,6 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
   private socketConnected(): void {
     // console.log("socket connected");
     this.setState({ connected: true });
-    this.join();
   }
 
   private socketDisconnected(): void {
@@ -789,12 +1125,140 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
 
   private socketReconnect(): void {
     console.warn("socket reconnect");
+    const { identity } = this;
     let { reconnects } = this.state;
     reconnects += 1;
     this.setState({ reconnects });
+
+    // present our id and token so the server gives us our character back
+    if (identity !== undefined) {
+      const { id, token } = identity;
+      this.socketQuery = { ...this.socketQuery, id, token };
+      this.socket.io.opts.query = this.socketQuery;
+    }
+  }
+
+  /**
+   * We're sending too much and the server dropped some of it. If it keeps
+   * happening the server disconnects us.
+   */
+  private rateLimited(rateLimitedEvent: IRateLimitedEvent): void {
+    const { event, drops } = rateLimitedEvent;
+    console.warn("rate limited", event, drops);
+  }
+
+  /**
+   * An admin banned us, the server disconnects right after this
+   */
+  private banned(bannedEvent: IBannedEvent): void {
+    const { reason, expiresAt } = bannedEvent;
+    const until = expiresAt !== undefined ? new Date(expiresAt) : "forever";
+    console.error("banned", reason, until);
+  }
+
+  /**
+   * Each connection gets a fresh id from the server. We take it on and
+   * then join with it, unless the server gave us our character back.
+   */
+  private characterIdentity(identityEvent: ICharacterIdentityEvent): void {
+    const { id, token, resumed } = identityEvent;
+
+    if (isValidId(id) === false || isValidToken(token) === false) {
+      console.error("character identity error", identityEvent);
+      return;
+    }
+
+    this.identity = identityEvent;
+    this.character.id = id;
+    this.lastSentPosition = undefined;
+    this.lastSentRotation = undefined;
+
+    // nobody saw us leave, tell them where we went meanwhile
+    if (resumed === true) {
+      const { position } = this.character;
+      this.socket.emit("character-position", this.sequenced({ id, position }));
+      return;
+    }
+
     this.join();
   }
 
+  /**
+   * The server refused one of the events we sent without an
+   * acknowledgement, for example a position while we weren't joined.
+   */
+  private eventRejected(rejectedEvent: IEventRejectedEvent): void {
+    const { event, code, field, reason, rejections } = rejectedEvent;
+    console.warn("event rejected", event, code, field, reason, rejections);
+    this.eventFailed(event, { code, field, message: reason });
+  }
+
+  /**
+   * Deal with a refused event by its code
+   */
+  private eventFailed(eventName: string, error: IEventError): void {
+    const { code, field, message } = error;
+
+    // our character expired or was kicked while the socket stayed, so we
+    // join again instead of sending updates nobody will take
+    if (code === "UNKNOWN_CHARACTER" && eventName !== "character-join") {
+      this.rejoin();
+      return;
+    }
+
+    if (
+      code === "USERNAME_TAKEN" ||
+      code === "USERNAME_RESERVED" ||
+      code === "USERNAME_FILTERED" ||
+      (code === "VALIDATION_FAILED" && field === "username")
+    ) {
+      this.usernameRejected(eventName, message);
+      return;
+    }
+
+    // late updates and dropped events are expected, the rest is a bug
+    if (code !== "STALE_UPDATE" && code !== "RATE_LIMITED") {
+      console.error("event failed", eventName, code, field, message);
+    }
+  }
+
+  /**
+   * Show why the server refused our username. A refused rename keeps the
+   * old one, a refused join tries again with a random one.
+   */
+  private usernameRejected(event: string, reason: string): void {
+    const { character } = this;
+
+    if (event === "character-username") {
+      character.username = this.previousUsername;
+    }
+
+    if (event === "character-join") {
+      character.username = randomUsername();
+      this.join();
+    }
+
+    this.setState({
+      usernameMessage: `${reason}`,
+      usernameTextboxBackground: usernameInvalidBackground,
+    });
+    this.eventUpdate();
+  }
+
+  /**
+   * The server reads the parcels from scene.json and tells us where
+   * characters are allowed to go
+   */
+  private sceneBounds(bounds: ISceneBounds): void {
+    if (isValidSceneBounds(bounds) === false) {
+      console.error("scene bounds error", bounds);
+      return;
+    }
+
+    characterManager.setBounds(bounds);
+    this.eventUpdate();
+  }
+
   /**
    * Other characters have joined and will now be rendered in the scene
    */
@@ -802,12 +1266,24 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
     const [success, error] = characterManager.characterJoin(joinEvent);
 
     if (success === true) {
+      const { id, slot } = joinEvent;
+
+      // the slot is how binary messages refer to this character
+      if (slot !== undefined) {
+        characterManager.bindSlot(id, slot);
+      }
+
       this.eventUpdate();
       return;
     }
 
+    // we already have something newer
+    if (error === staleUpdateError) {
+      return;
+    }
+
     console.error("character join error", error);
-    this.introduce();
+    this.resync();
   }
 
   private characterPart(partEvent: ICharacterPartEvent): void {
@@ -819,7 +1295,7 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
     }
 
     console.error("character part error", error);
-    this.introduce();
+    this.resync();
   }
 
   /**
@@ -828,6 +1304,19 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
    * It's disabled until we figure out how to use textboxes
    */
   private characterUsername(usernameEvent: ICharacterUsernameEvent): void {
+    // an admin renamed us
+    if (usernameEvent.id === this.character.id) {
+      const { username } = usernameEvent;
+
+      if (isValidUsername(username) === true) {
+        this.character.username = username;
+        this.setState({ usernameInputText: username });
+        this.eventUpdate();
+      }
+
+      return;
+    }
+
     const [success, error] = characterManager.updateCharacterUsername(
       usernameEvent
     );
@@ -838,7 +1327,7 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
     }
 
     console.error("character username error", error);
-    this.introduce();
+    this.resync();
   }
 
   /**
@@ -846,6 +1335,11 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
    * position gets broadcast to everyone.
    */
   private characterPosition(positionEvent: ICharacterPositionEvent): void {
+    // an admin teleported us, but only the player can move the camera
+    if (positionEvent.id === this.character.id) {
+      return;
+    }
+
     const [success, error] = characterManager.updateCharacterPosition(
       positionEvent
     );
@@ -855,8 +1349,12 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
       return;
     }
 
+    if (error === staleUpdateError) {
+      return;
+    }
+
     console.error("character position error", error);
-    this.introduce();
+    this.resync();
   }
 
   /**
@@ -872,8 +1370,407 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
       return;
     }
 
+    if (error === staleUpdateError) {
+      return;
+    }
+
     console.error("character rotation error", error);
-    this.introduce();
+    this.resync();
+  }
+
+  /**
+   * The server answered our ping, one more sample for the round trip and
+   * clock offset
+   */
+  private characterPong(pongEvent: ICharacterPongEvent): void {
+    const sample = measureClock(pongEvent, Date.now());
+
+    if (sample === undefined) {
+      console.error("character pong error", pongEvent);
+      return;
+    }
+
+    this.clockSync.add(sample);
+    this.eventUpdate();
+  }
+
+  /**
+   * Someone else measured their round trip to the server
+   */
+  private characterLatency(latencyEvent: ICharacterLatencyEvent): void {
+    const [success, error] = characterManager.updateCharacterLatency(
+      latencyEvent
+    );
+
+    if (success === true) {
+      this.eventUpdate();
+      return;
+    }
+
+    console.error("character latency error", error);
+    this.resync();
+  }
+
+  /**
+   * When the server runs in tick mode it batches everyone who moved into
+   * one snapshot. It's applied all at once with a single update.
+   */
+  private characterSnapshot(snapshotEvent: ICharacterSnapshotEvent): void {
+    const { id } = this.character;
+    const { characters } = snapshotEvent;
+
+    if (Array.isArray(characters) === false) {
+      console.error("character snapshot error", snapshotEvent);
+      return;
+    }
+
+    // the snapshot goes to everyone so it includes us too
+    const [success, error] = characterManager.characterSnapshot({
+      characters: characters.filter((item) => item.id !== id),
+    });
+
+    this.eventUpdate();
+
+    if (success === true) {
+      return;
+    }
+
+    if (error === staleUpdateError) {
+      return;
+    }
+
+    console.error("character snapshot error", error);
+    this.resync();
+  }
+
+  /**
+   * Everyone in the world at once, after joining or when we were too far
+   * behind for a diff
+   */
+  private worldSnapshot(snapshotEvent: IWorldSnapshotEvent): void {
+    const [success, error] = characterManager.worldSnapshot(snapshotEvent);
+    this.worldVersion = snapshotEvent.version;
+    this.eventUpdate();
+
+    if (success === true) {
+      return;
+    }
+
+    console.error("world snapshot error", error);
+  }
+
+  /**
+   * Only what changed since the version we asked for, or since we lost the
+   * connection when resuming
+   */
+  private worldDiff(diffEvent: IWorldDiffEvent): void {
+    const [success, error] = characterManager.worldDiff(diffEvent);
+    this.worldVersion = diffEvent.version;
+    this.eventUpdate();
+
+    if (success === true) {
+      return;
+    }
+
+    console.error("world diff error", error);
+  }
+
+  /**
+   * The closer the characters are the more a tile lights up. The idea
+   * here is to keep incrementing it even if it goes over a valid byte.
+   *
+   * The result is then clamped to the byte value range we need.
+   */
+  private lightTile(index: number, occupants: IZoneOccupant[]): void {
+    const { id } = this.character;
+    let colorByte = 34;
+
+    // other characters have to be within 2 meters to light it up
+    occupants
+      .filter((occupant) => occupant.id === id || occupant.distance < 2)
+      .forEach((occupant) => {
+        if (occupant.distance < 1) {
+          colorByte += 200;
+        } else if (occupant.distance < 2) {
+          colorByte += 100;
+        } else {
+          colorByte += 50;
+        }
+      });
+
+    // clamp
+    colorByte = clamp(colorByte, 34, 255);
+
+    // convert to hex
+    const hexByte = colorByte.toString(16);
+
+    // convert to monochrome hex color
+    const tileColors = [...this.state.tileColors];
+    tileColors[index] = `#${hexByte}${hexByte}${hexByte}`;
+    this.setState({ tileColors });
+  }
+
+  /**
+   * Someone in the room said something, maybe us
+   */
+  private chatMessage(messageEvent: IChatMessageEvent): void {
+    const [success, error] = chatManager.chatMessage(messageEvent);
+
+    if (success === true) {
+      this.generateChatText();
+      return;
+    }
+
+    console.error("chat message error", error);
+  }
+
+  /**
+   * What was said in the room before we joined
+   */
+  private chatHistory(historyEvent: IChatHistoryEvent): void {
+    const [success, error] = chatManager.chatHistory(historyEvent);
+    this.generateChatText();
+
+    if (success === true) {
+      return;
+    }
+
+    console.error("chat history error", error);
+  }
+
+  /**
+   * Some of a character's attributes changed
+   */
+  private characterAttributes(
+    attributesEvent: ICharacterAttributesEvent
+  ): void {
+    const [success, error] = characterManager.updateCharacterAttributes(
+      attributesEvent
+    );
+
+    if (success === true) {
+      this.forceUpdate();
+      return;
+    }
+
+    console.error("character attributes error", error);
+    this.resync();
+  }
+
+  /**
+   * Someone waved, jumped, or pointed
+   */
+  private characterAction(actionEvent: ICharacterActionEvent): void {
+    const [success, error] = characterManager.characterAction(actionEvent);
+
+    if (success === true) {
+      this.forceUpdate();
+      return;
+    }
+
+    console.error("character action error", error);
+    this.resync();
+  }
+
+  /**
+   * Tell everyone we're doing something, pointing at whoever is closest
+   */
+  private actionClicked(action: CharacterAction): void {
+    const { id, position } = this.character;
+    const actionEvent: ICharacterActionEvent = { action, id };
+
+    if (action === "point") {
+      const [closest] = characterManager
+        .characterList()
+        .filter(charInBounds)
+        .sort(
+          (a, b) =>
+            distance(a.position, position) - distance(b.position, position)
+        );
+
+      if (closest !== undefined) {
+        actionEvent.target = closest.id;
+      }
+    }
+
+    this.socket.emit(
+      "character-action",
+      this.sequenced(actionEvent),
+      this.eventAck("character-action")
+    );
+  }
+
+  /**
+   * How far along its action a character is from 0 to 1, or undefined
+   * when it isn't doing anything
+   */
+  private actionProgress(char: Character): number | undefined {
+    const remaining = char.actionExpiresAt - this.clockSync.serverTime();
+
+    if (char.action === "" || remaining <= 0) {
+      return undefined;
+    }
+
+    return clamp(1 - remaining / actionDurationMs, 0, 1);
+  }
+
+  private isAnyoneActing(): boolean {
+    return characterManager
+      .characterList()
+      .some((char) => this.actionProgress(char) !== undefined);
+  }
+
+  /**
+   * Send what's in the chat textbox and clear it
+   */
+  private chatSendClicked(): void {
+    const text = this.state.chatInputText;
+    const { id } = this.character;
+
+    if (isValidChatText(text) === false) {
+      return;
+    }
+
+    const messageEvent: IChatMessageEvent = { id, text };
+    this.socket.emit(
+      "chat-message",
+      messageEvent,
+      this.eventAck("chat-message")
+    );
+    this.setState({ chatInputText: "" });
+  }
+
+  /**
+   * The chat billboard shows the last few lines, newest at the bottom
+   */
+  private generateChatText(): void {
+    const chatText = chatManager
+      .recentMessages(chatBillboardLines)
+      .map((message) => `${message.username}: ${message.text}`)
+      .join("\n");
+
+    this.setState({ chatText });
+  }
+
+  /**
+   * The server changed one of the shared objects
+   */
+  private entityState(stateEvent: IEntity): void {
+    const [success, error] = entityManager.updateEntity(stateEvent);
+
+    if (success === true) {
+      return;
+    }
+
+    console.error("entity state error", error);
+  }
+
+  /**
+   * Every shared object as it is when we connect
+   */
+  private entitySnapshot(snapshotEvent: IEntitySnapshotEvent): void {
+    const [success, error] = entityManager.entitySnapshot(snapshotEvent);
+
+    if (success === true) {
+      return;
+    }
+
+    console.error("entity snapshot error", error);
+  }
+
+  /**
+   * Slide the door to wherever the server says, it keeps its height so
+   * it can still be dropping in when the scene loads
+   */
+  private entityChanged(entity: IEntity): void {
+    if (entity.type === "door") {
+      const { open } = entity.state as IDoorState;
+      const { y, z } = this.state.doorPosition;
+      const x = open === true ? doorOpenX : doorClosedX;
+      this.setState({ doorPosition: { x, y, z } });
+    }
+  }
+
+  /**
+   * The server confirms which wire protocol it's going to use with us
+   */
+  private wireProtocolChanged(wireProtocolEvent: IWireProtocolEvent): void {
+    const { protocol } = wireProtocolEvent;
+
+    if (isValidWireProtocol(protocol) === false) {
+      console.error("wire protocol error", wireProtocolEvent);
+      return;
+    }
+
+    this.wireProtocol = protocol;
+    this.lastSentPosition = undefined;
+    this.lastSentRotation = undefined;
+  }
+
+  /**
+   * Binary version of `characterPosition`. Only the axes which changed are
+   * in the message, the rest come from what we already know.
+   */
+  private characterPositionBinary(data: ArrayBuffer): void {
+    const { bounds } = characterManager;
+    const char = this.characterForBinary(data);
+
+    if (char === undefined) {
+      return;
+    }
+
+    const previous = quantizePosition(char.position, bounds);
+    const decoded = decodeVector3(data, previous);
+
+    if (decoded === undefined || decoded.kind !== positionKind) {
+      console.error("character position binary error", data);
+      this.resync();
+      return;
+    }
+
+    const { quantized, seq } = decoded;
+    const position = dequantizePosition(quantized, bounds);
+    this.characterPosition({ id: char.id, position, seq });
+  }
+
+  /**
+   * Binary version of `characterRotation`
+   */
+  private characterRotationBinary(data: ArrayBuffer): void {
+    const char = this.characterForBinary(data);
+
+    if (char === undefined) {
+      return;
+    }
+
+    const previous = quantizeRotation(char.rotation);
+    const decoded = decodeVector3(data, previous);
+
+    if (decoded === undefined || decoded.kind !== rotationKind) {
+      console.error("character rotation binary error", data);
+      this.resync();
+      return;
+    }
+
+    const { quantized, seq } = decoded;
+    const rotation = dequantizeRotation(quantized);
+    this.characterRotation({ id: char.id, rotation, seq });
+  }
+
+  /**
+   * Binary messages refer to characters by slot. If we don't know the
+   * slot yet we need to resync.
+   */
+  private characterForBinary(data: ArrayBuffer): Character | undefined {
+    const slot = readSlot(data);
+    const char =
+      slot !== undefined ? characterManager.characterBySlot(slot) : undefined;
+
+    if (char === undefined) {
+      this.resync();
+    }
+
+    return char;
   }
 
   /**
@@ -881,12 +1778,33 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
    * to the server so everyone can see.
    */
   private frameworkPositionChanged(evt: DCL.IEvents["positionChanged"]): void {
-    const { socket, character } = this;
+    const { socket, character, wireProtocol, lastSentPosition } = this;
     const { id } = character;
     const { position } = evt;
-    socket.emit("character-position", { id, position });
+    const quantized = quantizePosition(position, characterManager.bounds);
     this.character.position = position;
     this.eventUpdate();
+
+    // outside the bounds it can't be quantized so it goes as JSON
+    if (wireProtocol === "json" || quantized === undefined) {
+      this.lastSentPosition = undefined;
+      socket.emit("character-position", this.sequenced({ id, position }));
+      return;
+    }
+
+    const data = encodeVector3(
+      positionKind,
+      0,
+      quantized,
+      lastSentPosition,
+      this.seq + 1
+    );
+
+    if (data !== undefined) {
+      this.seq += 1;
+      this.lastSentPosition = quantized;
+      socket.emit(positionBinaryEvent, data);
+    }
   }
 
   /**
@@ -894,10 +1812,29 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
    * allows us to see where they are looking.
    */
   private frameworkRotationChanged(evt: DCL.IEvents["rotationChanged"]): void {
-    const { socket, character } = this;
+    const { socket, character, wireProtocol, lastSentRotation } = this;
     const { id } = character;
     const { rotation } = evt;
-    socket.emit("character-rotation", { id, rotation });
+
+    if (wireProtocol === "json") {
+      socket.emit("character-rotation", this.sequenced({ id, rotation }));
+      return;
+    }
+
+    const quantized = quantizeRotation(rotation);
+    const data = encodeVector3(
+      rotationKind,
+      0,
+      quantized,
+      lastSentRotation,
+      this.seq + 1
+    );
+
+    if (data !== undefined) {
+      this.seq += 1;
+      this.lastSentRotation = quantized;
+      socket.emit(rotationBinaryEvent, data);
+    }
   }
 
   /**
@@ -931,6 +1868,74 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
     );
   }
 
+  /**
+   * Draw the chat billboard next to the usernames, tilted the same way
+   */
+  private drawChatBillboard(): DCL.ISimplifiedNode {
+    return (
+      <text
+        id="chat-billboard-text"
+        position={{ x: 8.5, y: 3.95, z: 9 }}
+        rotation={{ x: -50, y: 0, z: 0 }}
+        outlineWidth={textOutlineWidth}
+        outlineColor={textOutlineColor}
+        color={textColor}
+        fontFamily={textFontFamily}
+        fontSize={40}
+        value={this.state.chatText}
+        lineSpacing="1.3"
+        textWrapping={true}
+        hAlign="left"
+        vAlign="bottom"
+        width={2.4}
+        height={1.36}
+        resizeToFit={false}
+        shadowBlur={1}
+        shadowOffsetX={1}
+        shadowOffsetY={1}
+        shadowColor={textOutlineColor}
+      />
+    );
+  }
+
+  /**
+   * How high to lift a ghost, how to turn it, and what its nametag says
+   * while it's acting. Jumps go up and down once, waves lean side to side
+   * twice, and points turn it toward who it's pointing at.
+   */
+  private animateAction(
+    char: Character,
+    rotation: Vector3Component
+  ): [number, Vector3Component, string] {
+    const progress = this.actionProgress(char);
+    const { action, actionTarget, username } = char;
+
+    if (progress === undefined) {
+      return [0, rotation, username];
+    }
+
+    if (action === "jump") {
+      const lift = Math.sin(progress * Math.PI) * ghostJumpHeight;
+      return [lift, rotation, username];
+    }
+
+    if (action === "wave") {
+      const z = rotation.z + Math.sin(progress * Math.PI * 4) * ghostWaveAngle;
+      return [0, { ...rotation, z }, `${username} o/`];
+    }
+
+    const target = characterManager.characters[actionTarget];
+
+    if (action === "point" && target !== undefined) {
+      const from = this.interpolator.position(char.id) || char.position;
+      const to = this.interpolator.position(target.id) || target.position;
+      const y = (Math.atan2(to.x - from.x, to.z - from.z) * 180) / Math.PI;
+      return [0, { ...rotation, y }, `${username} -> ${target.username}`];
+    }
+
+    return [0, rotation, username];
+  }
+
   /**
    * Draw ghost placeholders for all the characters so we can see them in
    * realtime moving around and rotating.
@@ -940,12 +1945,21 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
       .characterList()
       .filter(charInBounds)
       .map((char, index) => {
-        const { username, position, rotation } = char;
+        const { id } = char;
+        const { status } = char.attributes;
         const charBoxId = `character-box-${index}`;
 
+        // a little behind real time, somewhere between the last updates
+        const position = this.interpolator.position(id) || char.position;
+        const rotation = this.interpolator.rotation(id) || char.rotation;
+
         const { x, z } = position;
-        const ghostPosition = { x, y: 1.5, z };
-        const nametagPosition = { x, y: 2.3, z };
+        const [lift, ghostRotation, nametagText] = this.animateAction(
+          char,
+          rotation
+        );
+        const ghostPosition = { x, y: 1.5 + lift, z };
+        const nametagPosition = { x, y: 2.3 + lift, z };
         const nametagRotation = {
           x: rotation.x,
           y: rotation.y + 180,
@@ -958,7 +1972,7 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
             id={charBoxId}
             key={charBoxId}
             position={ghostPosition}
-            rotation={rotation}
+            rotation={ghostRotation}
             scale={ghostScale}
             arc={ghostArc}
             radius={ghostRadius}
@@ -977,7 +1991,9 @@ export default class WebsocketScene extends DCL.ScriptableScene<any, IState> {
             color={textColor}
             fontFamily={textFontFamily}
             fontSize={70}
-            value={username}
+            value={
+              status !== undefined ? `${nametagText}\n${status}` : nametagText
+            }
             width={2}
             height={0.6}
           />
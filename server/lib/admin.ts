@@ -0,0 +1,393 @@
+/*
+
+The admin API lets whoever has the shared secret look at and moderate
+the characters in every room over HTTP. It's only mounted when the
+server has a secret to check against.
+
+*/
+
+import { timingSafeEqual } from "crypto";
+import { Vector3Component } from "decentraland-api";
+import * as express from "express";
+import { Character, ICharacterAttributes } from "./character";
+import { EventResultTuple } from "./character-manager";
+import { isValidId, isValidNumber } from "./formats";
+import {
+  BanKind,
+  exactUsernamePattern,
+  IMute,
+  ModerationList,
+} from "./moderation";
+import { Room, RoomManager } from "./room";
+
+/**
+ * What the admin API tells about a character
+ */
+export interface IAdminCharacter {
+  room: string;
+  id: string;
+  username: string;
+  position: Vector3Component;
+  rotation: Vector3Component;
+  inBounds: boolean;
+  latency: number;
+  attributes: ICharacterAttributes;
+  // the socket.io id, null while it's waiting to be resumed
+  socket: string | null;
+}
+
+/**
+ * The server does the moderating so everyone hears about it
+ */
+export interface IAdminModerator {
+  kick(room: Room, char: Character): EventResultTuple;
+  rename(room: Room, char: Character, username: string): EventResultTuple;
+  teleport(
+    room: Room,
+    char: Character,
+    position: Vector3Component
+  ): EventResultTuple;
+  // kick whoever is connected and banned now
+  enforceBans(): void;
+}
+
+/**
+ * The request bodies, none of it is checked yet
+ */
+interface IRenameBody {
+  username: string;
+}
+
+interface ITeleportBody {
+  position: Vector3Component;
+}
+
+interface IBanBody {
+  kind: BanKind;
+  value: string;
+  reason?: string;
+  durationMs?: number;
+}
+
+interface IMuteBody {
+  id: string;
+  ip?: string;
+  username?: string;
+  reason?: string;
+  durationMs?: number;
+}
+
+const unauthorizedError = new Error("the admin secret is missing or wrong");
+const characterNotFoundError = new Error("the character doesn't exist");
+const notFoundError = new Error("there's nothing like that to remove");
+const invalidMuteError = new Error("the mute needs a valid character id");
+const invalidDurationError = new Error("durationMs has to be above 0");
+
+/**
+ * When something expires, `durationMs` from now or never
+ */
+function expiresAt(durationMs?: number): number | undefined | Error {
+  if (durationMs === undefined) {
+    return undefined;
+  }
+
+  if (isValidNumber(durationMs) === false || durationMs <= 0) {
+    return invalidDurationError;
+  }
+
+  return Date.now() + durationMs;
+}
+
+/**
+ * True if the request has `Authorization: Bearer <secret>`
+ */
+export function hasAdminSecret(req: express.Request, secret: string): boolean {
+  const header = req.get("authorization") || "";
+  const [scheme, token] = header.split(" ");
+
+  if (scheme !== "Bearer" || token === undefined) {
+    return false;
+  }
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(token);
+  return (
+    expected.length === actual.length &&
+    timingSafeEqual(expected, actual) === true
+  );
+}
+
+/**
+ * The room a character is in, whichever room that is
+ */
+export function findCharacter(
+  roomManager: RoomManager,
+  id: string
+): [Room, Character] | undefined {
+  for (const room of roomManager.roomList()) {
+    const char = room.characterManager.characters[id];
+
+    if (char !== undefined) {
+      return [room, char];
+    }
+  }
+
+  return undefined;
+}
+
+export function adminCharacter(room: Room, char: Character): IAdminCharacter {
+  const { id, username, position, rotation, inBounds, latency } = char;
+  const connection = room.connections[id];
+
+  return {
+    attributes: char.attributes,
+    id,
+    inBounds,
+    latency,
+    position,
+    room: room.id,
+    rotation,
+    socket: connection !== undefined ? connection.socket.id : null,
+    username,
+  };
+}
+
+/**
+ * Send the character after the moderator did something to it, or why it
+ * couldn't
+ */
+function sendResult(
+  res: express.Response,
+  room: Room,
+  char: Character,
+  result: EventResultTuple
+): void {
+  const [success, error] = result;
+
+  if (success === true) {
+    res.json(adminCharacter(room, char));
+    return;
+  }
+
+  res.status(400).json({ error: error !== undefined ? error.message : "" });
+}
+
+/**
+ * GET    /characters             every character in every room
+ * GET    /characters/:id         one character
+ * POST   /characters/:id/kick
+ * POST   /characters/:id/rename  { "username": "..." }
+ * POST   /characters/:id/teleport { "position": { "x", "y", "z" } }
+ * GET    /bans
+ * POST   /bans                   { "kind", "value", "reason", "durationMs" }
+ * DELETE /bans/:kind/:value
+ * GET    /mutes
+ * POST   /mutes                  { "id", "reason", "durationMs" }, and
+ *                                 "ip" and "username" default to the id's
+ * DELETE /mutes/:muted
+ * GET    /audit
+ */
+export function adminRouter(
+  roomManager: RoomManager,
+  secret: string,
+  moderator: IAdminModerator,
+  moderation: ModerationList
+): express.Router {
+  const router = express.Router();
+
+  router.use((req, res, next) => {
+    if (hasAdminSecret(req, secret) === true) {
+      return next();
+    }
+
+    res.status(401).json({ error: unauthorizedError.message });
+  });
+
+  router.use(express.json());
+
+  router.get("/characters", (req, res) => {
+    const characters: IAdminCharacter[] = [];
+    roomManager
+      .roomList()
+      .forEach((room) =>
+        room.characterManager
+          .characterList()
+          .forEach((char) => characters.push(adminCharacter(room, char)))
+      );
+    res.json(characters);
+  });
+
+  // the rest are about one character
+  router.param("id", (req, res, next, id) => {
+    const found = findCharacter(roomManager, id);
+
+    if (found === undefined) {
+      res.status(404).json({ error: characterNotFoundError.message });
+      return;
+    }
+
+    res.locals.room = found[0];
+    res.locals.char = found[1];
+    next();
+  });
+
+  router.get("/characters/:id", (req, res) => {
+    const { room, char } = res.locals;
+    res.json(adminCharacter(room, char));
+  });
+
+  router.post("/characters/:id/kick", (req, res) => {
+    const { room, char } = res.locals;
+    const result = moderator.kick(room, char);
+
+    if (result[0] === true) {
+      moderation.record("kick", char.id);
+    }
+
+    sendResult(res, room, char, result);
+  });
+
+  router.post("/characters/:id/rename", (req, res) => {
+    const { room, char } = res.locals;
+    const { username }: IRenameBody = req.body || {};
+
+    if (typeof username !== "string") {
+      const error = room.characterManager.validationError("username");
+      sendResult(res, room, char, [false, error]);
+      return;
+    }
+
+    const previous = char.username;
+    const result = moderator.rename(room, char, username);
+
+    if (result[0] === true) {
+      moderation.record("rename", char.id, `${previous} → ${username}`);
+    }
+
+    sendResult(res, room, char, result);
+  });
+
+  router.post("/characters/:id/teleport", (req, res) => {
+    const { room, char } = res.locals;
+    const { position }: ITeleportBody = req.body || {};
+    const result = moderator.teleport(room, char, position);
+
+    if (result[0] === true) {
+      moderation.record("teleport", char.id, JSON.stringify(char.position));
+    }
+
+    sendResult(res, room, char, result);
+  });
+
+  router.get("/bans", (req, res) => {
+    moderation.prune();
+    res.json(moderation.bans);
+  });
+
+  router.post("/bans", (req, res) => {
+    const { kind, value, reason = "", durationMs }: IBanBody = req.body || {};
+    const expires = expiresAt(durationMs);
+
+    if (expires instanceof Error) {
+      res.status(400).json({ error: expires.message });
+      return;
+    }
+
+    const ban = {
+      createdAt: Date.now(),
+      expiresAt: expires,
+      kind,
+      reason,
+      value,
+    };
+    const [success, error] = moderation.ban(ban);
+
+    if (success === false) {
+      res.status(400).json({ error: error !== undefined ? error.message : "" });
+      return;
+    }
+
+    moderator.enforceBans();
+    res.json(ban);
+  });
+
+  router.delete("/bans/:kind/:value", (req, res) => {
+    const { kind, value } = req.params;
+
+    if (moderation.unban(kind as BanKind, value) === false) {
+      res.status(404).json({ error: notFoundError.message });
+      return;
+    }
+
+    res.json({ kind, value });
+  });
+
+  router.get("/mutes", (req, res) => {
+    moderation.prune();
+    res.json(moderation.mutes);
+  });
+
+  router.post("/mutes", (req, res) => {
+    const { id, reason = "", durationMs }: IMuteBody = req.body || {};
+    let { ip, username }: IMuteBody = req.body || {};
+    const expires = expiresAt(durationMs);
+
+    if (isValidId(id) === false) {
+      res.status(400).json({ error: invalidMuteError.message });
+      return;
+    }
+
+    if (expires instanceof Error) {
+      res.status(400).json({ error: expires.message });
+      return;
+    }
+
+    // mute whoever is playing as them too, when they reconnect with a new id
+    const found = findCharacter(roomManager, id);
+
+    if (found !== undefined) {
+      const [room, char] = found;
+      const connection = room.connections[id];
+
+      if (ip === undefined && connection !== undefined) {
+        ip = connection.socket.handshake.address;
+      }
+
+      if (username === undefined) {
+        username = exactUsernamePattern(char.username);
+      }
+    }
+
+    const mute: IMute = {
+      createdAt: Date.now(),
+      expiresAt: expires,
+      id,
+      ip,
+      reason,
+      username,
+    };
+    const [success, error] = moderation.mute(mute);
+
+    if (success === false) {
+      res.status(400).json({ error: error !== undefined ? error.message : "" });
+      return;
+    }
+
+    res.json(mute);
+  });
+
+  router.delete("/mutes/:muted", (req, res) => {
+    const { muted } = req.params;
+
+    if (moderation.unmute(muted) === false) {
+      res.status(404).json({ error: notFoundError.message });
+      return;
+    }
+
+    res.json({ id: muted });
+  });
+
+  router.get("/audit", (req, res) => res.json(moderation.audit));
+
+  return router;
+}
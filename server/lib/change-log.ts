@@ -0,0 +1,75 @@
+/*
+
+Every change to the characters in a room bumps its version. Clients keep
+the version they were last synced to and ask for what changed since,
+instead of having everything sent to them again.
+
+*/
+
+export interface IVersionHashTable {
+  [key: string]: number;
+}
+
+export class ChangeLog {
+  public version: number = 0;
+  // differences can't be worked out from versions older than this
+  public floor: number = 0;
+  public changedAt: IVersionHashTable = {};
+  public partedAt: IVersionHashTable = {};
+
+  constructor(public tombstoneLimit: number) {}
+
+  /**
+   * The character joined or changed
+   */
+  public change(id: string): number {
+    this.version += 1;
+    this.changedAt[id] = this.version;
+    delete this.partedAt[id];
+    return this.version;
+  }
+
+  /**
+   * The character parted, remember it until there are too many
+   */
+  public part(id: string): number {
+    const { partedAt, tombstoneLimit } = this;
+    this.version += 1;
+    delete this.changedAt[id];
+    partedAt[id] = this.version;
+
+    const tombstones = Object.keys(partedAt).sort(
+      (a, b) => partedAt[a] - partedAt[b]
+    );
+
+    tombstones
+      .slice(0, Math.max(tombstones.length - tombstoneLimit, 0))
+      .forEach((partedId) => {
+        this.floor = Math.max(this.floor, partedAt[partedId]);
+        delete partedAt[partedId];
+      });
+
+    return this.version;
+  }
+
+  /**
+   * True when we still know everything that happened since the version
+   */
+  public canDiff(from: number): boolean {
+    return (
+      Number.isInteger(from) === true &&
+      from >= this.floor &&
+      from <= this.version
+    );
+  }
+
+  /**
+   * The ids which changed and the ids which parted after the version
+   */
+  public changedSince(from: number): [string[], string[]] {
+    const { changedAt, partedAt } = this;
+    const changed = Object.keys(changedAt).filter((id) => changedAt[id] > from);
+    const parted = Object.keys(partedAt).filter((id) => partedAt[id] > from);
+    return [changed, parted];
+  }
+}
@@ -11,59 +11,272 @@ will try to use to goof around with servers.
 
 import { Vector3Component } from "decentraland-api";
 import { EventEmitter } from "events";
-import { Character } from "./character";
-import { characterIdleMs } from "./config";
-import { isValidId, isValidUsername, isValidVector3Component } from "./formats";
+import { defaultSceneBounds, ISceneBounds } from "./bounds";
+import { AttributeValue, Character, ICharacterAttributes } from "./character";
+import {
+  BoundsPolicy,
+  boundsPolicy,
+  characterIdleMs,
+  reservedUsernames,
+} from "./config";
+import { codedError, ErrorCode } from "./errors";
+import {
+  clampVector3,
+  isValidAction,
+  isValidAttributes,
+  isValidBoundedVector3Component,
+  isValidId,
+  isValidLatency,
+  isValidNumber,
+  isValidSeq,
+  isValidUsername,
+  isValidVector3Component,
+} from "./formats";
+import { isValidSlot, maxSlot } from "./protocol";
+
+/**
+ * The server hands out a character id, and a token to resume it later,
+ * as soon as a socket connects
+ */
+export interface ICharacterIdentityEvent {
+  id: string;
+  token: string;
+  // true when the socket took over a character it had before
+  resumed?: boolean;
+}
+
+/**
+ * Everything a client sends about its character carries an increasing
+ * sequence number and the client's clock so late messages can't overwrite
+ * newer ones. The server relays them with the updates.
+ */
+export interface ISequencedEvent {
+  seq?: number;
+  sentAt?: number;
+}
 
 /**
  * Sent and received when new users join the server
  */
-export interface ICharacterJoinEvent {
+export interface ICharacterJoinEvent extends ISequencedEvent {
   id: string;
   username: string;
   position: Vector3Component;
   rotation: Vector3Component;
+  inBounds?: boolean;
+  slot?: number;
+  attributes?: ICharacterAttributes;
 }
 
+/**
+ * Why a character left the scene
+ */
+export type CharacterPartReason =
+  | "disconnect"
+  | "expired"
+  | "kicked"
+  | "left"
+  | "out-of-range";
+
 /**
  * The user leaves the scenes
  */
-export interface ICharacterPartEvent {
+export interface ICharacterPartEvent extends ISequencedEvent {
   id: string;
+  reason?: CharacterPartReason;
 }
 
 /**
  * Sent and received user changing their username
  */
-export interface ICharacterUsernameEvent {
+export interface ICharacterUsernameEvent extends ISequencedEvent {
   id: string;
   username: string;
 }
 
+/**
+ * Attributes to change, `null` removes one
+ */
+export interface IAttributeChanges {
+  [key: string]: AttributeValue | null;
+}
+
+/**
+ * Sent with only the attributes which changed
+ */
+export interface ICharacterAttributesEvent extends ISequencedEvent {
+  id: string;
+  attributes: IAttributeChanges;
+}
+
+/**
+ * Only the attributes which differ between two versions of them, with
+ * `null` for the ones which were removed
+ */
+export function attributesDiff(
+  before: ICharacterAttributes,
+  after: ICharacterAttributes
+): IAttributeChanges {
+  const diff: IAttributeChanges = {};
+
+  Object.keys(after)
+    .filter((key) => before[key] !== after[key])
+    .forEach((key) => (diff[key] = after[key]));
+
+  Object.keys(before)
+    .filter((key) => after[key] === undefined)
+    .forEach((key) => (diff[key] = null));
+
+  return diff;
+}
+
+/**
+ * The short-lived things characters can do, see `isValidAction`
+ */
+export type CharacterAction = "wave" | "jump" | "point";
+
+/**
+ * Sent when a character waves, jumps, or points, maybe at another
+ * character. The server relays it with when it expires by its clock.
+ */
+export interface ICharacterActionEvent extends ISequencedEvent {
+  id: string;
+  action: CharacterAction;
+  target?: string;
+  expiresAt?: number;
+}
+
 /**
  * Sent and received when a character moves
  */
-export interface ICharacterPositionEvent {
+export interface ICharacterPositionEvent extends ISequencedEvent {
   id: string;
   position: Vector3Component;
+  inBounds?: boolean;
 }
 
 /**
  * Sent and recieved when a character rotates
  */
-export interface ICharacterRotationEvent {
+export interface ICharacterRotationEvent extends ISequencedEvent {
   id: string;
   rotation: Vector3Component;
 }
 
+/**
+ * Where one character is and where it's looking
+ */
+export interface ICharacterStateEvent {
+  id: string;
+  position: Vector3Component;
+  rotation: Vector3Component;
+  inBounds: boolean;
+  seq?: number;
+}
+
+/**
+ * Sent each server tick with only the characters that changed
+ */
+export interface ICharacterSnapshotEvent {
+  characters: ICharacterStateEvent[];
+}
+
+/**
+ * Every character in the world as of a version, sent after joining
+ */
+export interface IWorldSnapshotEvent {
+  version: number;
+  characters: Character[];
+}
+
+/**
+ * A client asks for what changed since the version it has
+ */
+export interface IResyncEvent {
+  version: number;
+}
+
+/**
+ * The characters which changed and the ids of the ones which parted
+ * between two versions of the world
+ */
+export interface IWorldDiffEvent {
+  from: number;
+  version: number;
+  characters: Character[];
+  parted: string[];
+}
+
 /**
  * The user lets the apps know it's still there
  */
-export interface ICharacterPingEvent {
+export interface ICharacterPingEvent extends ISequencedEvent {
+  id: string;
+  // the round trip measured from the previous pongs
+  latency?: number;
+}
+
+/**
+ * The answer to a ping. The client's `sentAt` comes back along with the
+ * server's clock when the ping arrived and when the pong left.
+ */
+export interface ICharacterPongEvent {
+  id: string;
+  sentAt: number;
+  receivedAt: number;
+  repliedAt: number;
+}
+
+/**
+ * Sent to everyone else when a character's latency changes
+ */
+export interface ICharacterLatencyEvent {
   id: string;
+  latency: number;
+}
+
+/**
+ * Sent back to a socket when the server refuses one of its events and it
+ * didn't ask for an acknowledgement
+ */
+export interface IEventRejectedEvent {
+  event: string;
+  code: ErrorCode;
+  field?: string;
+  reason: string;
+  rejections: number;
+}
+
+/**
+ * A position after the bounds policy was applied to it
+ */
+export interface IBoundedPosition {
+  position: Vector3Component;
+  inBounds: boolean;
+}
+
+/**
+ * Warns a socket it's sending too many events and some were dropped
+ */
+export interface IRateLimitedEvent {
+  event: string;
+  drops: number;
+}
+
+/**
+ * Sent right before the server disconnects a banned socket
+ */
+export interface IBannedEvent {
+  reason: string;
+  expiresAt?: number;
 }
 
 export type OptionalError = Error | undefined;
+
+/**
+ * Returns false for usernames which shouldn't be allowed
+ */
+export type UsernameFilter = (username: string) => boolean;
 export type EventResultTuple = [boolean, OptionalError];
 
 export interface ITimerHashTable {
@@ -74,7 +287,97 @@ export interface ICharacterHashTable {
   [key: string]: Character;
 }
 
-const characterDoesNotExistError = new Error("the character doesn't exist");
+export interface IDirtyHashTable {
+  [key: string]: boolean;
+}
+
+export interface ISlotHashTable {
+  [key: number]: string;
+}
+
+export interface IOwnerHashTable {
+  [key: string]: string;
+}
+
+/**
+ * Which part of a character changed when "update" is emitted
+ */
+export type CharacterUpdateField =
+  | "join"
+  | "position"
+  | "rotation"
+  | "latency"
+  | "action"
+  | "attributes";
+
+/**
+ * The events CharacterManager emits as characters come, go, and change
+ */
+export interface CharacterManager {
+  on(event: "join", listener: (char: Character) => void): this;
+  on(
+    event: "part",
+    listener: (partEvent: ICharacterPartEvent, char: Character) => void
+  ): this;
+  on(event: "expire", listener: (char: Character) => void): this;
+  on(
+    event: "update",
+    listener: (char: Character, field: CharacterUpdateField) => void
+  ): this;
+  on(
+    event: "rename",
+    listener: (char: Character, previousUsername: string) => void
+  ): this;
+  emit(event: "join", char: Character): boolean;
+  emit(event: "part", partEvent: ICharacterPartEvent, char: Character): boolean;
+  emit(event: "expire", char: Character): boolean;
+  emit(event: "update", char: Character, field: CharacterUpdateField): boolean;
+  emit(event: "rename", char: Character, previousUsername: string): boolean;
+}
+
+const characterDoesNotExistError = codedError(
+  "UNKNOWN_CHARACTER",
+  "the character doesn't exist"
+);
+const notOwnerError = codedError(
+  "NOT_OWNER",
+  "the character belongs to someone else"
+);
+const outOfBoundsError = codedError(
+  "OUT_OF_BOUNDS",
+  "the position is out of bounds"
+);
+
+/**
+ * Returned for updates older than the last one applied, they're dropped
+ * without telling anyone
+ */
+export const staleUpdateError = codedError(
+  "STALE_UPDATE",
+  "the update is older than the last"
+);
+
+/**
+ * Why a username was refused, the scene tells the player
+ */
+export const usernameTakenError = codedError(
+  "USERNAME_TAKEN",
+  "the username is taken"
+);
+export const usernameReservedError = codedError(
+  "USERNAME_RESERVED",
+  "the username is reserved"
+);
+export const usernameFilteredError = codedError(
+  "USERNAME_FILTERED",
+  "the username isn't allowed"
+);
+
+/**
+ * Lowercase without the separators so "Ad-Min" is "admin"
+ */
+const normalizeUsername = (username: string): string =>
+  username.toLowerCase().replace(/[\-\_\.\ ]/g, "");
 
 /**
  * Manage some state for all the connected users. It's an isomorphic
@@ -83,6 +386,45 @@ const characterDoesNotExistError = new Error("the character doesn't exist");
 export class CharacterManager extends EventEmitter {
   public characters: ICharacterHashTable = {};
   public expirationTimers: ITimerHashTable = {};
+  public owners: IOwnerHashTable = {};
+  public dirty: IDirtyHashTable = {};
+  public slots: ISlotHashTable = {};
+  public boundsPolicy: BoundsPolicy = boundsPolicy;
+  public bounds: ISceneBounds = defaultSceneBounds;
+  // the server keeps usernames unique, the scene trusts what it's told
+  public uniqueUsernames: boolean = false;
+  public usernameFilters: UsernameFilter[] = [];
+
+  public addUsernameFilter(filter: UsernameFilter): void {
+    this.usernameFilters.push(filter);
+  }
+
+  /**
+   * Why a character can't have a username, or undefined if it can. The
+   * character's own username never counts as taken.
+   */
+  public usernameError(id: string, username: string): OptionalError {
+    if (isValidUsername(username) === false) {
+      return this.validationError("username");
+    }
+
+    if (reservedUsernames.indexOf(normalizeUsername(username)) !== -1) {
+      return usernameReservedError;
+    }
+
+    if (this.usernameFilters.some((filter) => filter(username) === false)) {
+      return usernameFilteredError;
+    }
+
+    const lowercase = username.toLowerCase();
+    const taken =
+      this.uniqueUsernames === true &&
+      this.characterList().some(
+        (char) => char.id !== id && char.username.toLowerCase() === lowercase
+      );
+
+    return taken === true ? usernameTakenError : undefined;
+  }
 
   /**
    * Stop a timer that expires a Character
@@ -104,12 +446,205 @@ export class CharacterManager extends EventEmitter {
     }
 
     this.cancelExpiration(id);
-    const timer = setTimeout(() => this.characterPart({ id }), characterIdleMs);
+    const timer = setTimeout(() => this.characterExpire(id), characterIdleMs);
     this.expirationTimers[id] = timer;
   }
 
+  /**
+   * The character went idle for too long so it's removed
+   */
+  public characterExpire(id: string): void {
+    const char = this.characters[id];
+
+    if (char === undefined) {
+      return;
+    }
+
+    this.emit("expire", char);
+    this.characterPart({ id, reason: "expired" });
+  }
+
+  /**
+   * Bind a character id to whoever is sending its events, like a socket id.
+   *
+   * Only the server needs this. The scene copy never claims anything.
+   */
+  public claimOwnership(id: string, ownerId: string): EventResultTuple {
+    const { owners } = this;
+
+    if (isValidId(id) === false) {
+      return [false, this.validationError("id")];
+    }
+
+    if (owners[id] !== undefined && owners[id] !== ownerId) {
+      return [false, notOwnerError];
+    }
+
+    owners[id] = ownerId;
+    return [true, undefined];
+  }
+
+  /**
+   * Forget who owns a character, only if it's the same owner
+   */
+  public releaseOwnership(id: string, ownerId: string): void {
+    if (this.owners[id] === ownerId) {
+      delete this.owners[id];
+    }
+  }
+
+  /**
+   * True if the character was claimed by this owner
+   */
+  public isOwner(id: string, ownerId: string): boolean {
+    const owner = this.owners[id];
+    return owner !== undefined && owner === ownerId;
+  }
+
+  /**
+   * Give the character the lowest free slot for the binary protocol. The
+   * server does this, the scene uses `bindSlot` with what it's told.
+   */
+  public assignSlot(id: string): number | undefined {
+    const { characters, slots } = this;
+    const char = characters[id];
+
+    if (char === undefined) {
+      return undefined;
+    }
+
+    if (char.slot !== 0 && slots[char.slot] === id) {
+      return char.slot;
+    }
+
+    for (let slot = 1; slot <= maxSlot; slot += 1) {
+      if (slots[slot] === undefined) {
+        slots[slot] = id;
+        char.slot = slot;
+        return slot;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Remember the slot the server assigned to a character
+   */
+  public bindSlot(id: string, slot: number): EventResultTuple {
+    const { characters, slots } = this;
+    const char = characters[id];
+
+    if (isValidSlot(slot) === false) {
+      return [false, this.validationError("slot")];
+    }
+
+    if (char === undefined) {
+      return [false, characterDoesNotExistError];
+    }
+
+    if (slots[char.slot] === id) {
+      delete slots[char.slot];
+    }
+
+    slots[slot] = id;
+    char.slot = slot;
+    return [true, undefined];
+  }
+
+  /**
+   * Look up who is using a slot
+   */
+  public characterBySlot(slot: number): Character | undefined {
+    const id = this.slots[slot];
+    return id !== undefined ? this.characters[id] : undefined;
+  }
+
+  /**
+   * Switch to different bounds and check everyone against them again
+   */
+  public setBounds(bounds: ISceneBounds): void {
+    this.bounds = bounds;
+    this.characterList().forEach((char) => {
+      char.inBounds = isValidBoundedVector3Component(char.position, bounds);
+    });
+  }
+
+  /**
+   * Reject, clamp, or mark a position depending on the bounds policy.
+   * Returns undefined when it's rejected.
+   */
+  public applyBoundsPolicy(
+    position: Vector3Component
+  ): IBoundedPosition | undefined {
+    const { bounds } = this;
+
+    if (isValidBoundedVector3Component(position, bounds) === true) {
+      return { position, inBounds: true };
+    }
+
+    switch (this.boundsPolicy) {
+      case "reject":
+        return undefined;
+      case "clamp":
+        return { position: clampVector3(position, bounds), inBounds: true };
+      default:
+        return { position, inBounds: false };
+    }
+  }
+
   public validationError(field: string): Error {
-    return new Error(`CharacterManager: event validation error → ${field}`);
+    return codedError(
+      "VALIDATION_FAILED",
+      `CharacterManager: event validation error → ${field}`,
+      field
+    );
+  }
+
+  /**
+   * Updates without a sequence number are always applied. The ones older
+   * than the last applied one are stale.
+   */
+  public checkSequence(
+    char: Character,
+    sequencedEvent: ISequencedEvent
+  ): EventResultTuple {
+    const { seq, sentAt } = sequencedEvent;
+
+    if (seq === undefined) {
+      return [true, undefined];
+    }
+
+    if (isValidSeq(seq) === false) {
+      return [false, this.validationError("seq")];
+    }
+
+    if (sentAt !== undefined && isValidNumber(sentAt) === false) {
+      return [false, this.validationError("sentAt")];
+    }
+
+    if (seq < char.seq) {
+      return [false, staleUpdateError];
+    }
+
+    return [true, undefined];
+  }
+
+  /**
+   * Remember the last sequence number applied to the character
+   */
+  public applySequence(char: Character, sequencedEvent: ISequencedEvent): void {
+    const { seq, sentAt } = sequencedEvent;
+
+    if (seq === undefined) {
+      return;
+    }
+
+    char.seq = seq;
+
+    if (sentAt !== undefined) {
+      char.sentAt = sentAt;
+    }
   }
 
   /**
@@ -117,15 +652,17 @@ export class CharacterManager extends EventEmitter {
    */
   public characterJoin(joinEvent: ICharacterJoinEvent): EventResultTuple {
     const { characters } = this;
-    const { id, username, rotation } = joinEvent;
+    const { id, username, rotation, attributes } = joinEvent;
     const { position } = joinEvent;
 
     if (isValidId(id) === false) {
       return [false, this.validationError("id")];
     }
 
-    if (isValidUsername(username) === false) {
-      return [false, this.validationError("username")];
+    const usernameError = this.usernameError(id, username);
+
+    if (usernameError !== undefined) {
+      return [false, usernameError];
     }
 
     if (isValidVector3Component(position) === false) {
@@ -136,14 +673,44 @@ export class CharacterManager extends EventEmitter {
       return [false, this.validationError("rotation")];
     }
 
-    this.scheduleExpiration(id);
+    if (attributes !== undefined && isValidAttributes(attributes) === false) {
+      return [false, this.validationError("attributes")];
+    }
+
+    const bounded = this.applyBoundsPolicy(position);
 
+    if (bounded === undefined) {
+      return [false, outOfBoundsError];
+    }
+
+    const isNew = characters[id] === undefined;
     const char = characters[id] || new Character();
+    const sequenced = this.checkSequence(char, joinEvent);
+
+    if (sequenced[0] === false) {
+      return sequenced;
+    }
+
+    this.scheduleExpiration(id);
+    this.applySequence(char, joinEvent);
     char.id = id;
     char.username = username;
-    char.position = position;
+    char.position = bounded.position;
+    char.inBounds = bounded.inBounds;
     char.rotation = rotation;
     this.characters[id] = char;
+
+    if (attributes !== undefined) {
+      char.attributes = {};
+      this.applyAttributes(char, attributes);
+    }
+
+    if (isNew === true) {
+      this.emit("join", char);
+    } else {
+      this.emit("update", char, "join");
+    }
+
     return [true, undefined];
   }
 
@@ -151,9 +718,22 @@ export class CharacterManager extends EventEmitter {
    * Remove a character from the list
    */
   public characterPart(partEvent: ICharacterPartEvent): EventResultTuple {
-    const { id } = partEvent;
+    const { id, reason = "left" } = partEvent;
+    const char = this.characters[id];
     this.cancelExpiration(id);
+
+    if (char === undefined) {
+      return [true, undefined];
+    }
+
     delete this.characters[id];
+    delete this.dirty[id];
+
+    if (this.slots[char.slot] === id) {
+      delete this.slots[char.slot];
+    }
+
+    this.emit("part", { id, reason }, char);
     return [true, undefined];
   }
 
@@ -170,8 +750,40 @@ export class CharacterManager extends EventEmitter {
       return [false, this.validationError("id")];
     }
 
-    if (isValidUsername(username) === false) {
-      return [false, this.validationError("username")];
+    const usernameError = this.usernameError(id, username);
+
+    if (usernameError !== undefined) {
+      return [false, usernameError];
+    }
+
+    if (characters[id] === undefined) {
+      return [false, characterDoesNotExistError];
+    }
+
+    this.scheduleExpiration(id);
+    const char = this.characters[id];
+    const previousUsername = char.username;
+    char.username = username;
+    this.emit("rename", char, previousUsername);
+
+    return [true, undefined];
+  }
+
+  /**
+   * Change some of a character's attributes, leaving the others alone
+   */
+  public updateCharacterAttributes(
+    attributesEvent: ICharacterAttributesEvent
+  ): EventResultTuple {
+    const { characters } = this;
+    const { id, attributes } = attributesEvent;
+
+    if (isValidId(id) === false) {
+      return [false, this.validationError("id")];
+    }
+
+    if (isValidAttributes(attributes) === false) {
+      return [false, this.validationError("attributes")];
     }
 
     if (characters[id] === undefined) {
@@ -179,7 +791,63 @@ export class CharacterManager extends EventEmitter {
     }
 
     this.scheduleExpiration(id);
-    this.characters[id].username = username;
+    this.applyAttributes(characters[id], attributes);
+    this.emit("update", characters[id], "attributes");
+
+    return [true, undefined];
+  }
+
+  /**
+   * Set the attributes with values and remove the null ones
+   */
+  public applyAttributes(char: Character, attributes: IAttributeChanges): void {
+    Object.keys(attributes).forEach((key) => {
+      const value = attributes[key];
+
+      if (value === null) {
+        delete char.attributes[key];
+      } else {
+        char.attributes[key] = value;
+      }
+    });
+  }
+
+  /**
+   * Remember what a character is doing until it expires
+   */
+  public characterAction(actionEvent: ICharacterActionEvent): EventResultTuple {
+    const { characters } = this;
+    const { id, action, target, expiresAt } = actionEvent;
+
+    if (isValidId(id) === false) {
+      return [false, this.validationError("id")];
+    }
+
+    if (isValidAction(action) === false) {
+      return [false, this.validationError("action")];
+    }
+
+    if (
+      target !== undefined &&
+      (isValidId(target) === false || target === id)
+    ) {
+      return [false, this.validationError("target")];
+    }
+
+    if (expiresAt !== undefined && isValidNumber(expiresAt) === false) {
+      return [false, this.validationError("expiresAt")];
+    }
+
+    if (characters[id] === undefined) {
+      return [false, characterDoesNotExistError];
+    }
+
+    this.scheduleExpiration(id);
+    const char = characters[id];
+    char.action = action;
+    char.actionTarget = target !== undefined ? target : "";
+    char.actionExpiresAt = expiresAt !== undefined ? expiresAt : 0;
+    this.emit("update", char, "action");
 
     return [true, undefined];
   }
@@ -206,8 +874,24 @@ export class CharacterManager extends EventEmitter {
       return [false, characterDoesNotExistError];
     }
 
+    const sequenced = this.checkSequence(characters[id], positionEvent);
+
+    if (sequenced[0] === false) {
+      return sequenced;
+    }
+
+    const bounded = this.applyBoundsPolicy(position);
+
+    if (bounded === undefined) {
+      return [false, outOfBoundsError];
+    }
+
     this.scheduleExpiration(id);
-    this.characters[id].position = position;
+    this.applySequence(characters[id], positionEvent);
+    this.characters[id].position = bounded.position;
+    this.characters[id].inBounds = bounded.inBounds;
+    this.dirty[id] = true;
+    this.emit("update", this.characters[id], "position");
 
     return [true, undefined];
   }
@@ -233,11 +917,139 @@ export class CharacterManager extends EventEmitter {
       return [false, characterDoesNotExistError];
     }
 
+    const sequenced = this.checkSequence(characters[id], rotationEvent);
+
+    if (sequenced[0] === false) {
+      return sequenced;
+    }
+
     this.scheduleExpiration(id);
+    this.applySequence(characters[id], rotationEvent);
     this.characters[id].rotation = rotation;
+    this.dirty[id] = true;
+    this.emit("update", this.characters[id], "rotation");
     return [true, undefined];
   }
 
+  /**
+   * Apply a batch of positions and rotations from one server tick
+   */
+  public characterSnapshot(
+    snapshotEvent: ICharacterSnapshotEvent
+  ): EventResultTuple {
+    const { characters } = snapshotEvent;
+    let result: EventResultTuple = [true, undefined];
+
+    if (Array.isArray(characters) === false) {
+      return [false, this.validationError("characters")];
+    }
+
+    characters.forEach((stateEvent) => {
+      const { id, position, rotation, seq } =
+        stateEvent || ({} as ICharacterStateEvent);
+      const positionResult = this.updateCharacterPosition({
+        id,
+        position,
+        seq,
+      });
+      const rotationResult = this.updateCharacterRotation({
+        id,
+        rotation,
+        seq,
+      });
+
+      // keep going but remember something was wrong
+      if (positionResult[0] === false) {
+        result = positionResult;
+      } else if (rotationResult[0] === false) {
+        result = rotationResult;
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Replace everyone with the characters from a world snapshot
+   */
+  public worldSnapshot(snapshotEvent: IWorldSnapshotEvent): EventResultTuple {
+    const { characters } = snapshotEvent;
+
+    if (Array.isArray(characters) === false) {
+      return [false, this.validationError("characters")];
+    }
+
+    const ids = characters.map((char) => (char || ({} as Character)).id);
+    this.characterList()
+      .filter((char) => ids.indexOf(char.id) === -1)
+      .forEach((char) => this.characterPart({ id: char.id }));
+
+    return this.joinCharacters(characters);
+  }
+
+  /**
+   * Apply what changed between two versions of the world
+   */
+  public worldDiff(diffEvent: IWorldDiffEvent): EventResultTuple {
+    const { characters, parted } = diffEvent;
+
+    if (Array.isArray(characters) === false) {
+      return [false, this.validationError("characters")];
+    }
+
+    if (Array.isArray(parted) === false) {
+      return [false, this.validationError("parted")];
+    }
+
+    parted.forEach((id) => this.characterPart({ id }));
+    return this.joinCharacters(characters);
+  }
+
+  /**
+   * Join or update each character and bind the slot it came with
+   */
+  public joinCharacters(characters: Character[]): EventResultTuple {
+    let result: EventResultTuple = [true, undefined];
+
+    characters.forEach((char) => {
+      const joinEvent: ICharacterJoinEvent =
+        char || ({} as ICharacterJoinEvent);
+      const joinResult = this.characterJoin(joinEvent);
+
+      // keep going but remember something was wrong
+      if (joinResult[0] === false) {
+        result = joinResult;
+        return;
+      }
+
+      if (joinEvent.slot !== undefined) {
+        this.bindSlot(joinEvent.id, joinEvent.slot);
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * The characters which moved or rotated since the last call
+   */
+  public takeDirtyCharacters(): Character[] {
+    const { characters, dirty } = this;
+    const dirtyCharacters = Object.keys(dirty)
+      .filter((id) => characters[id] !== undefined)
+      .map((id) => characters[id]);
+    this.dirty = {};
+    return dirtyCharacters;
+  }
+
+  /**
+   * The part of a character which goes into snapshots
+   */
+  public characterState(char: Character): ICharacterStateEvent {
+    const { id, position, rotation, inBounds, seq } = char;
+    return { id, position, rotation, inBounds, seq };
+  }
+
   /**
    * Refresh the timer that will expire a character.
    */
@@ -254,6 +1066,41 @@ export class CharacterManager extends EventEmitter {
 
     this.scheduleExpiration(id);
 
+    if (pingEvent.latency !== undefined) {
+      const { latency } = pingEvent;
+      return this.updateCharacterLatency({ id, latency });
+    }
+
+    return [true, undefined];
+  }
+
+  /**
+   * Remember the round trip a character's client measured
+   */
+  public updateCharacterLatency(
+    latencyEvent: ICharacterLatencyEvent
+  ): EventResultTuple {
+    const { characters } = this;
+    const { id, latency } = latencyEvent;
+
+    if (isValidId(id) === false) {
+      return [false, this.validationError("id")];
+    }
+
+    if (isValidLatency(latency) === false) {
+      return [false, this.validationError("latency")];
+    }
+
+    if (characters[id] === undefined) {
+      return [false, characterDoesNotExistError];
+    }
+
+    if (characters[id].latency === latency) {
+      return [true, undefined];
+    }
+
+    characters[id].latency = latency;
+    this.emit("update", characters[id], "latency");
     return [true, undefined];
   }
 
@@ -1,13 +1,24 @@
 import { Vector3Component } from "decentraland-api";
-import { randomId } from "./formats";
+import { randomUsername } from "./formats";
+
+export type AttributeValue = string | number | boolean;
+
+/**
+ * Whatever else there is to know about a character, the keys and values
+ * are declared in `attributeSchema` in ./config.ts
+ */
+export interface ICharacterAttributes {
+  [key: string]: AttributeValue;
+}
 
 /**
  * Representing a user in the scene. It is used both for
  * the user viewing as well as all the network users.
  */
 export class Character {
-  public id: string = randomId();
-  public username: string = "";
+  // issued by the server when the socket connects
+  public id: string = "";
+  public username: string = randomUsername();
 
   public position: Vector3Component = {
     x: 0,
@@ -21,7 +32,26 @@ export class Character {
     z: 0,
   };
 
-  constructor() {
-    this.username = this.id;
-  }
+  // false when the position is outside the configured bounds
+  public inBounds: boolean = true;
+
+  // a short numeric id for the binary protocol, 0 until the server assigns it
+  public slot: number = 0;
+
+  // the last sequence number applied from its client, and the client's
+  // clock when it sent that update
+  public seq: number = 0;
+  public sentAt: number = 0;
+
+  // the round trip to the server its client measured, 0 until it knows
+  public latency: number = 0;
+
+  // avatar color, team, status, and so on
+  public attributes: ICharacterAttributes = {};
+
+  // what it's doing for a moment, the character id it's doing it at, and
+  // when it stops by the server's clock
+  public action: string = "";
+  public actionTarget: string = "";
+  public actionExpiresAt: number = 0;
 }
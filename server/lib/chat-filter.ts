@@ -0,0 +1,20 @@
+/*
+
+Filters every chat message goes through on the server before it's kept
+and relayed. Add your own to `chatFilters` to replace words or drop
+messages altogether.
+
+*/
+
+import { ChatFilter } from "./chat-manager";
+
+/**
+ * Squash runs of spaces and trim the ends
+ */
+export const collapseWhitespace: ChatFilter = (message) =>
+  message.text.replace(/\s+/g, " ").trim();
+
+/**
+ * The filters each room starts with, in order
+ */
+export const chatFilters: ChatFilter[] = [collapseWhitespace];
@@ -0,0 +1,152 @@
+/*
+
+Text chat between the characters in a room. The server stamps every
+message with who sent it and when, runs it through the filters, and
+keeps the last few so characters joining can catch up.
+
+*/
+
+import { EventEmitter } from "events";
+import { EventResultTuple } from "./character-manager";
+import { chatHistoryLimit } from "./config";
+import { codedError } from "./errors";
+import {
+  isValidChatText,
+  isValidId,
+  isValidNumber,
+  isValidUsername,
+} from "./formats";
+
+/**
+ * Clients send the id and text, the server fills in the rest before it's
+ * relayed
+ */
+export interface IChatMessageEvent {
+  id: string;
+  text: string;
+  username?: string;
+  sentAt?: number;
+}
+
+/**
+ * The recent messages, sent after joining
+ */
+export interface IChatHistoryEvent {
+  messages: IChatMessageEvent[];
+}
+
+/**
+ * Returns the text to keep, changed or not, or undefined to drop it
+ */
+export type ChatFilter = (message: IChatMessageEvent) => string | undefined;
+
+/**
+ * The events ChatManager emits
+ */
+export interface ChatManager {
+  on(event: "message", listener: (message: IChatMessageEvent) => void): this;
+  emit(event: "message", message: IChatMessageEvent): boolean;
+}
+
+export const chatFilteredError = codedError(
+  "MESSAGE_FILTERED",
+  "the message was filtered"
+);
+
+export class ChatManager extends EventEmitter {
+  public messages: IChatMessageEvent[] = [];
+  public filters: ChatFilter[] = [];
+
+  constructor(public historyLimit: number = chatHistoryLimit) {
+    super();
+  }
+
+  public validationError(field: string): Error {
+    return codedError(
+      "VALIDATION_FAILED",
+      `ChatManager: event validation error → ${field}`,
+      field
+    );
+  }
+
+  public addFilter(filter: ChatFilter): void {
+    this.filters.push(filter);
+  }
+
+  /**
+   * Check a message, filter it, and keep it in the history
+   */
+  public chatMessage(messageEvent: IChatMessageEvent): EventResultTuple {
+    const { id, text, username, sentAt } =
+      messageEvent || ({} as IChatMessageEvent);
+
+    if (isValidId(id) === false) {
+      return [false, this.validationError("id")];
+    }
+
+    if (isValidChatText(text) === false) {
+      return [false, this.validationError("text")];
+    }
+
+    if (username !== undefined && isValidUsername(username) === false) {
+      return [false, this.validationError("username")];
+    }
+
+    if (sentAt !== undefined && isValidNumber(sentAt) === false) {
+      return [false, this.validationError("sentAt")];
+    }
+
+    const message: IChatMessageEvent = { id, sentAt, text, username };
+
+    for (const filter of this.filters) {
+      const filtered = filter(message);
+
+      if (filtered === undefined || isValidChatText(filtered) === false) {
+        return [false, chatFilteredError];
+      }
+
+      message.text = filtered;
+    }
+
+    this.messages.push(message);
+
+    if (this.messages.length > this.historyLimit) {
+      this.messages.splice(0, this.messages.length - this.historyLimit);
+    }
+
+    this.emit("message", message);
+    return [true, undefined];
+  }
+
+  /**
+   * Replace what we have with the history from the server
+   */
+  public chatHistory(historyEvent: IChatHistoryEvent): EventResultTuple {
+    const { messages } = historyEvent || ({} as IChatHistoryEvent);
+
+    if (Array.isArray(messages) === false) {
+      return [false, this.validationError("messages")];
+    }
+
+    this.messages = [];
+    let result: EventResultTuple = [true, undefined];
+
+    messages.forEach((message: IChatMessageEvent) => {
+      const messageResult = this.chatMessage(message);
+
+      // keep going but remember something was wrong
+      if (messageResult[0] === false) {
+        result = messageResult;
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * The last few messages, oldest first
+   */
+  public recentMessages(count: number): IChatMessageEvent[] {
+    return this.messages.slice(-count);
+  }
+}
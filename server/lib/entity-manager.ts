@@ -0,0 +1,145 @@
+/*
+
+Shared objects in the scene, like the automatic door. The server owns
+them: its rules decide their state and it tells everyone when it
+changes. The scene only draws what it's told so every client agrees.
+
+*/
+
+import { EventEmitter } from "events";
+import { EventResultTuple } from "./character-manager";
+import { doorId } from "./config";
+import { codedError } from "./errors";
+
+/**
+ * The kinds of entities there are rules for
+ */
+export type EntityType = "door";
+
+export interface IDoorState {
+  open: boolean;
+}
+
+export type EntityState = IDoorState;
+
+/**
+ * Sent to everyone in the room when an entity changes
+ */
+export interface IEntity {
+  id: string;
+  type: EntityType;
+  state: EntityState;
+}
+
+/**
+ * Every entity in the room, sent when a socket connects
+ */
+export interface IEntitySnapshotEvent {
+  entities: IEntity[];
+}
+
+export interface IEntityHashTable {
+  [key: string]: IEntity;
+}
+
+/**
+ * The events EntityManager emits
+ */
+export interface EntityManager {
+  on(event: "change", listener: (entity: IEntity) => void): this;
+  emit(event: "change", entity: IEntity): boolean;
+}
+
+/**
+ * The door starts closed, the server and the scene both begin with it
+ */
+export const createDoor = (): IEntity => ({
+  id: doorId,
+  state: { open: false },
+  type: "door",
+});
+
+const entityDoesNotExistError = codedError(
+  "UNKNOWN_ENTITY",
+  "the entity doesn't exist"
+);
+
+const isValidDoorState = (state: any): boolean =>
+  state !== undefined && state !== null && typeof state.open === "boolean";
+
+const validEntityStates = {
+  door: isValidDoorState,
+};
+
+export class EntityManager extends EventEmitter {
+  public entities: IEntityHashTable = {};
+
+  public addEntity(entity: IEntity): void {
+    this.entities[entity.id] = entity;
+  }
+
+  public validationError(field: string): Error {
+    return codedError(
+      "VALIDATION_FAILED",
+      `EntityManager: event validation error → ${field}`,
+      field
+    );
+  }
+
+  /**
+   * Change the state of an entity, only emitting when it actually changed
+   */
+  public updateEntity(stateEvent: IEntity): EventResultTuple {
+    const { entities } = this;
+    const { id, type, state } = stateEvent || ({} as IEntity);
+    const entity = entities[id];
+
+    if (entity === undefined) {
+      return [false, entityDoesNotExistError];
+    }
+
+    if (type !== entity.type) {
+      return [false, this.validationError("type")];
+    }
+
+    if (validEntityStates[entity.type](state) === false) {
+      return [false, this.validationError("state")];
+    }
+
+    if (JSON.stringify(state) === JSON.stringify(entity.state)) {
+      return [true, undefined];
+    }
+
+    entity.state = { ...state };
+    this.emit("change", entity);
+    return [true, undefined];
+  }
+
+  /**
+   * Apply every entity from a snapshot
+   */
+  public entitySnapshot(snapshotEvent: IEntitySnapshotEvent): EventResultTuple {
+    const { entities } = snapshotEvent;
+    let result: EventResultTuple = [true, undefined];
+
+    if (Array.isArray(entities) === false) {
+      return [false, this.validationError("entities")];
+    }
+
+    entities.forEach((entity) => {
+      const entityResult = this.updateEntity(entity);
+
+      // keep going but remember something was wrong
+      if (entityResult[0] === false) {
+        result = entityResult;
+      }
+    });
+
+    return result;
+  }
+
+  public entityList(): IEntity[] {
+    const { entities } = this;
+    return Object.keys(entities).map((key) => entities[key]);
+  }
+}
@@ -0,0 +1,74 @@
+/*
+
+The rules which decide what the shared objects do. Each entity type has
+one which works out its next state from where the characters are, and
+the server runs them whenever a character moves, joins, or parts.
+
+*/
+
+import { Character } from "./character";
+import {
+  doorClosedDistance,
+  doorClosedX,
+  doorId,
+  doorOpenDistance,
+  doorZ,
+} from "./config";
+import {
+  EntityManager,
+  EntityState,
+  IDoorState,
+  IEntity,
+} from "./entity-manager";
+import { IProximityZone, zoneOccupants } from "./proximity";
+
+export type EntityRule = (
+  entity: IEntity,
+  characters: Character[]
+) => EntityState;
+
+export interface IEntityRuleHashTable {
+  [key: string]: EntityRule;
+}
+
+/**
+ * Where characters open the door from, it stays open a little farther
+ * than it opens so it doesn't flicker
+ */
+export const doorZone: IProximityZone = {
+  enterDistance: doorClosedDistance,
+  exitDistance: doorOpenDistance,
+  id: doorId,
+  shape: { kind: "circle", center: { x: doorClosedX, y: 0, z: doorZ } },
+};
+
+/**
+ * Open the door if any characters are near it, whether it's open is
+ * whether the zone is active
+ */
+export const doorRule: EntityRule = (entity, characters) => {
+  const { open } = entity.state as IDoorState;
+  const inBounds = characters.filter((char) => char.inBounds === true);
+  return { open: zoneOccupants(doorZone, inBounds, open).length > 0 };
+};
+
+export const entityRules: IEntityRuleHashTable = {
+  door: doorRule,
+};
+
+/**
+ * Run every entity's rule, the manager emits for the ones which changed
+ */
+export function applyEntityRules(
+  entityManager: EntityManager,
+  characters: Character[]
+): void {
+  entityManager.entityList().forEach((entity) => {
+    const rule = entityRules[entity.type];
+
+    if (rule !== undefined) {
+      const { id, type } = entity;
+      entityManager.updateEntity({ id, state: rule(entity, characters), type });
+    }
+  });
+}
@@ -0,0 +1,35 @@
+/*
+
+The server decides who is who. Clients get their character id and a
+resume token handed to them when the socket connects.
+
+*/
+
+import { randomBytes } from "crypto";
+import { ICharacterIdentityEvent } from "./character-manager";
+
+/**
+ * 128 random bits is plenty to avoid collisions and guessing
+ */
+export const randomCharacterId = (): string =>
+  `character-${randomBytes(16).toString("hex")}`;
+
+/**
+ * The token is secret between the server and one client
+ */
+export const randomToken = (): string => randomBytes(32).toString("hex");
+
+/**
+ * Issue a new identity skipping any id that is already in use
+ */
+export function createIdentity(
+  isTaken: (id: string) => boolean
+): ICharacterIdentityEvent {
+  let id = randomCharacterId();
+
+  while (isTaken(id) === true) {
+    id = randomCharacterId();
+  }
+
+  return { id, token: randomToken() };
+}
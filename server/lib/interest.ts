@@ -0,0 +1,94 @@
+/*
+
+Interest management: each character only hears about the characters
+near it. It keeps track of who can see who so the server knows when to
+introduce characters coming into range and part the ones leaving it.
+
+*/
+
+import { Character } from "./character";
+import { distance } from "./formats";
+
+/**
+ * What happened to one character's view of another after moving
+ *
+ * + "enter" came into range
+ * + "leave" went out of range
+ * + "stay" still in range
+ * + "away" still out of range
+ */
+export type InterestChange = "enter" | "leave" | "stay" | "away";
+
+export interface IVisibleHashTable {
+  [key: string]: boolean;
+}
+
+export interface IObserverHashTable {
+  [key: string]: IVisibleHashTable;
+}
+
+export class InterestManager {
+  // observer id → the ids it can see
+  public observers: IObserverHashTable = {};
+
+  constructor(public radius: number) {}
+
+  /**
+   * With a radius of 0 everyone sees everyone
+   */
+  public isEnabled(): boolean {
+    return this.radius > 0;
+  }
+
+  public inRange(observer: Character, target: Character): boolean {
+    return distance(observer.position, target.position) <= this.radius;
+  }
+
+  /**
+   * True if the observer was told about the target
+   */
+  public canSee(observerId: string, targetId: string): boolean {
+    if (this.isEnabled() === false) {
+      return true;
+    }
+
+    const visible = this.observers[observerId];
+    return visible !== undefined && visible[targetId] === true;
+  }
+
+  /**
+   * Check the observer's view of the target after one of them moved
+   */
+  public update(observer: Character, target: Character): InterestChange {
+    const { observers } = this;
+    const wasVisible = this.canSee(observer.id, target.id);
+    const isVisible = this.inRange(observer, target);
+
+    if (observers[observer.id] === undefined) {
+      observers[observer.id] = {};
+    }
+
+    if (isVisible === true) {
+      observers[observer.id][target.id] = true;
+    } else {
+      delete observers[observer.id][target.id];
+    }
+
+    if (wasVisible === isVisible) {
+      return isVisible === true ? "stay" : "away";
+    }
+
+    return isVisible === true ? "enter" : "leave";
+  }
+
+  /**
+   * The character is gone so nobody sees it and it sees nobody
+   */
+  public forget(id: string): void {
+    const { observers } = this;
+    delete observers[id];
+    Object.keys(observers).forEach((observerId) => {
+      delete observers[observerId][id];
+    });
+  }
+}
@@ -0,0 +1,200 @@
+/*
+
+Counters, gauges, and histograms for the `/metrics` route, written out
+in the Prometheus text exposition format so the server can be scraped
+and alerted on.
+
+*/
+
+export type MetricType = "counter" | "gauge" | "histogram";
+
+export interface IMetricLabels {
+  [key: string]: string;
+}
+
+interface ISeries {
+  labels: IMetricLabels;
+  value: number;
+  // cumulative counts for each bucket, histograms only
+  buckets?: number[];
+  count?: number;
+}
+
+interface IMetric {
+  name: string;
+  help: string;
+  type: MetricType;
+  buckets: number[];
+  series: { [key: string]: ISeries };
+}
+
+/**
+ * How big an event's payload is, binary as is and everything else as JSON
+ */
+export function payloadBytes(args: any[]): number {
+  return args.reduce((total: number, arg: any) => {
+    if (arg instanceof Uint8Array || arg instanceof ArrayBuffer) {
+      return total + arg.byteLength;
+    }
+
+    if (arg === undefined || typeof arg === "function") {
+      return total;
+    }
+
+    return total + Buffer.byteLength(JSON.stringify(arg));
+  }, 0);
+}
+
+/**
+ * Seconds since a `process.hrtime()`
+ */
+export function secondsSince(start: [number, number]): number {
+  const [seconds, nanoseconds] = process.hrtime(start);
+  return seconds + nanoseconds / 1e9;
+}
+
+const escapeHelp = (help: string): string =>
+  help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+
+const escapeLabel = (value: string): string =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/"/g, '\\"');
+
+/**
+ * `{a="1",b="2"}` sorted by name, or nothing without labels
+ */
+function formatLabels(labels: IMetricLabels): string {
+  const pairs = Object.keys(labels)
+    .sort()
+    .map((key) => `${key}="${escapeLabel(labels[key])}"`);
+
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) {
+    return "+Inf";
+  }
+
+  if (value === -Infinity) {
+    return "-Inf";
+  }
+
+  return `${value}`;
+}
+
+export class MetricsRegistry {
+  public metrics: { [name: string]: IMetric } = {};
+
+  public counter(name: string, help: string): void {
+    this.define(name, help, "counter", []);
+  }
+
+  public gauge(name: string, help: string): void {
+    this.define(name, help, "gauge", []);
+  }
+
+  public histogram(name: string, help: string, buckets: number[]): void {
+    this.define(name, help, "histogram", buckets.slice().sort((a, b) => a - b));
+  }
+
+  public increment(
+    name: string,
+    labels: IMetricLabels = {},
+    amount: number = 1
+  ): void {
+    this.seriesOf(name, labels).value += amount;
+  }
+
+  public set(name: string, labels: IMetricLabels, value: number): void {
+    this.seriesOf(name, labels).value = value;
+  }
+
+  public observe(name: string, labels: IMetricLabels, value: number): void {
+    const metric = this.metrics[name];
+    const series = this.seriesOf(name, labels);
+
+    series.value += value;
+    series.count = (series.count || 0) + 1;
+    metric.buckets.forEach((bucket, index) => {
+      if (value <= bucket && series.buckets !== undefined) {
+        series.buckets[index] += 1;
+      }
+    });
+  }
+
+  /**
+   * Forget every series of a metric, for gauges whose labels come and go
+   * like the rooms
+   */
+  public reset(name: string): void {
+    this.metrics[name].series = {};
+  }
+
+  /**
+   * Everything in the Prometheus text exposition format
+   */
+  public render(): string {
+    const lines: string[] = [];
+
+    Object.keys(this.metrics)
+      .sort()
+      .forEach((name) => {
+        const { help, type, buckets, series } = this.metrics[name];
+        lines.push(`# HELP ${name} ${escapeHelp(help)}`);
+        lines.push(`# TYPE ${name} ${type}`);
+
+        Object.keys(series)
+          .sort()
+          .forEach((key) => {
+            const { labels, value, count = 0 } = series[key];
+
+            if (type !== "histogram") {
+              lines.push(`${name}${key} ${formatValue(value)}`);
+              return;
+            }
+
+            const counts = series[key].buckets || [];
+            buckets.concat(Infinity).forEach((bucket, index) => {
+              const le = { ...labels, le: formatValue(bucket) };
+              const bucketCount = bucket === Infinity ? count : counts[index];
+              lines.push(`${name}_bucket${formatLabels(le)} ${bucketCount}`);
+            });
+            lines.push(`${name}_sum${key} ${formatValue(value)}`);
+            lines.push(`${name}_count${key} ${count}`);
+          });
+      });
+
+    return lines.join("\n") + "\n";
+  }
+
+  private define(
+    name: string,
+    help: string,
+    type: MetricType,
+    buckets: number[]
+  ): void {
+    this.metrics[name] = { buckets, help, name, series: {}, type };
+  }
+
+  /**
+   * The series for a set of labels, created at zero the first time
+   */
+  private seriesOf(name: string, labels: IMetricLabels): ISeries {
+    const metric = this.metrics[name];
+    const key = formatLabels(labels);
+
+    if (metric.series[key] === undefined) {
+      metric.series[key] = {
+        buckets:
+          metric.type === "histogram" ? metric.buckets.map(() => 0) : undefined,
+        labels,
+        value: 0,
+      };
+    }
+
+    return metric.series[key];
+  }
+}
@@ -0,0 +1,342 @@
+/*
+
+Bans keep players out by character id, IP address, or a username
+pattern, and mutes drop the username and chat changes of a character.
+Either can expire. Character ids are new on every connection which
+doesn't resume, so id bans only last for one session and mutes also
+match the IP and username the character had. The lists and an audit
+log of what the admins did are saved to a JSON file and read back when
+the server starts.
+
+*/
+
+import { readFileSync, rename, writeFile } from "fs";
+import { OptionalError } from "./character-manager";
+import { auditLogLimit } from "./config";
+
+const escapeRegExp = require("lodash/escapeRegExp");
+
+export type BanKind = "id" | "ip" | "username";
+
+export interface IBan {
+  kind: BanKind;
+  // the id, the IP, or a case-insensitive regular expression for usernames
+  value: string;
+  reason: string;
+  createdAt: number;
+  // forever when it's undefined
+  expiresAt?: number;
+}
+
+export interface IMute {
+  id: string;
+  // so reconnecting with a new id doesn't get around it
+  ip?: string;
+  // a case-insensitive regular expression like the username bans
+  username?: string;
+  reason: string;
+  createdAt: number;
+  expiresAt?: number;
+}
+
+export type AuditAction =
+  | "ban"
+  | "unban"
+  | "mute"
+  | "unmute"
+  | "kick"
+  | "rename"
+  | "teleport";
+
+export interface IAuditEntry {
+  at: number;
+  action: AuditAction;
+  target: string;
+  detail?: string;
+}
+
+/**
+ * What moderation.json holds, until it's checked
+ */
+interface IModerationFile {
+  bans: IBan[];
+  mutes: IMute[];
+  audit: IAuditEntry[];
+}
+
+/**
+ * Who is connecting or joining, whatever we know about them so far
+ */
+export interface IModerationSubject {
+  id?: string;
+  ip?: string;
+  username?: string;
+}
+
+export type ModerationResultTuple = [boolean, OptionalError];
+
+const validBanKinds = ["id", "ip", "username"];
+const invalidBanError = new Error("the ban needs a kind, value, and reason");
+const invalidPatternError = new Error("the username pattern doesn't compile");
+const invalidMuteError = new Error("the mute needs an id and a reason");
+
+/**
+ * Still in effect at `now`
+ */
+const isActive = (item: { expiresAt?: number }, now: number): boolean =>
+  item.expiresAt === undefined || item.expiresAt > now;
+
+/**
+ * A pattern which only matches this username
+ */
+export const exactUsernamePattern = (username: string): string =>
+  `^${escapeRegExp(username)}$`;
+
+const isValidPattern = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+/**
+ * True if the username matches a username ban's pattern
+ */
+function matchesUsername(pattern: string, username: string): boolean {
+  try {
+    return new RegExp(pattern, "i").test(username) === true;
+  } catch (e) {
+    return false;
+  }
+}
+
+export class ModerationList {
+  public bans: IBan[] = [];
+  public mutes: IMute[] = [];
+  public audit: IAuditEntry[] = [];
+  // never overwrite a file we couldn't read, the bans in it would be lost
+  public readOnly: boolean = false;
+  // one save is written at a time, the latest lists go once it's done
+  public saving: boolean = false;
+  public savePending: boolean = false;
+
+  constructor(public filePath: string) {}
+
+  /**
+   * Read the lists from the file, a missing file is the same as empty
+   */
+  public load(): ModerationResultTuple {
+    let json: IModerationFile;
+
+    try {
+      json = JSON.parse(readFileSync(this.filePath, "utf8"));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        return [true, undefined];
+      }
+
+      this.readOnly = true;
+      return [false, e as Error];
+    }
+
+    const { bans, mutes, audit } = json || ({} as IModerationFile);
+    this.bans = Array.isArray(bans) === true ? bans : [];
+    this.mutes = Array.isArray(mutes) === true ? mutes : [];
+    this.audit = Array.isArray(audit) === true ? audit : [];
+    this.prune();
+    return [true, undefined];
+  }
+
+  /**
+   * Write the lists to the file in the background. They go to a temporary
+   * file first and replace the old one in one step, so a crash never
+   * leaves half a file behind.
+   */
+  public save(): void {
+    if (this.readOnly === true) {
+      return;
+    }
+
+    if (this.saving === true) {
+      this.savePending = true;
+      return;
+    }
+
+    const { bans, mutes, audit, filePath } = this;
+    const json = JSON.stringify({ bans, mutes, audit }, null, 2);
+    const tempPath = `${filePath}.tmp`;
+    this.saving = true;
+
+    writeFile(tempPath, json, "utf8", (writeErr) => {
+      if (writeErr !== null) {
+        return this.saved(writeErr);
+      }
+
+      rename(tempPath, filePath, (renameErr) => this.saved(renameErr));
+    });
+  }
+
+  /**
+   * Start the save that waited for this one
+   */
+  public saved(err: NodeJS.ErrnoException | null): void {
+    this.saving = false;
+
+    if (err !== null) {
+      console.error("error saving moderation list", this.filePath, err);
+    }
+
+    if (this.savePending === true) {
+      this.savePending = false;
+      this.save();
+    }
+  }
+
+  /**
+   * Forget the bans and mutes which expired
+   */
+  public prune(now: number = Date.now()): void {
+    this.bans = this.bans.filter((ban) => isActive(ban, now));
+    this.mutes = this.mutes.filter((mute) => isActive(mute, now));
+  }
+
+  /**
+   * Add a ban, replacing one with the same kind and value
+   */
+  public ban(ban: IBan): ModerationResultTuple {
+    const { kind, value, reason } = ban || ({} as IBan);
+
+    if (
+      validBanKinds.indexOf(kind) === -1 ||
+      typeof value !== "string" ||
+      value === "" ||
+      typeof reason !== "string"
+    ) {
+      return [false, invalidBanError];
+    }
+
+    if (kind === "username" && isValidPattern(value) === false) {
+      return [false, invalidPatternError];
+    }
+
+    this.bans = this.bans
+      .filter((item) => item.kind !== kind || item.value !== value)
+      .concat(ban);
+    this.record("ban", `${kind}:${value}`, reason);
+    return [true, undefined];
+  }
+
+  /**
+   * True if there was a ban to remove
+   */
+  public unban(kind: BanKind, value: string): boolean {
+    const count = this.bans.length;
+    this.bans = this.bans.filter(
+      (item) => item.kind !== kind || item.value !== value
+    );
+
+    if (this.bans.length === count) {
+      return false;
+    }
+
+    this.record("unban", `${kind}:${value}`);
+    return true;
+  }
+
+  /**
+   * The first ban in effect for any of what we know about the subject
+   */
+  public findBan(
+    subject: IModerationSubject,
+    now: number = Date.now()
+  ): IBan | undefined {
+    const { id, ip, username } = subject;
+
+    return this.bans
+      .filter((ban) => isActive(ban, now))
+      .find(
+        (ban) =>
+          (ban.kind === "id" && ban.value === id) ||
+          (ban.kind === "ip" && ban.value === ip) ||
+          (ban.kind === "username" &&
+            username !== undefined &&
+            matchesUsername(ban.value, username) === true)
+      );
+  }
+
+  /**
+   * Add a mute, replacing the one for the same id
+   */
+  public mute(mute: IMute): ModerationResultTuple {
+    const { id, ip, username, reason } = mute || ({} as IMute);
+
+    if (
+      typeof id !== "string" ||
+      typeof reason !== "string" ||
+      (ip !== undefined && (typeof ip !== "string" || ip === "")) ||
+      (username !== undefined && typeof username !== "string")
+    ) {
+      return [false, invalidMuteError];
+    }
+
+    if (username !== undefined && isValidPattern(username) === false) {
+      return [false, invalidPatternError];
+    }
+
+    this.mutes = this.mutes.filter((item) => item.id !== id).concat(mute);
+    this.record("mute", id, reason);
+    return [true, undefined];
+  }
+
+  /**
+   * True if there was a mute to remove
+   */
+  public unmute(id: string): boolean {
+    const count = this.mutes.length;
+    this.mutes = this.mutes.filter((item) => item.id !== id);
+
+    if (this.mutes.length === count) {
+      return false;
+    }
+
+    this.record("unmute", id);
+    return true;
+  }
+
+  /**
+   * True if a mute in effect matches any of what we know about the subject
+   */
+  public isMuted(
+    subject: IModerationSubject,
+    now: number = Date.now()
+  ): boolean {
+    const { id, ip, username } = subject;
+
+    return this.mutes
+      .filter((mute) => isActive(mute, now))
+      .some(
+        (mute) =>
+          mute.id === id ||
+          (mute.ip !== undefined && mute.ip === ip) ||
+          (mute.username !== undefined &&
+            username !== undefined &&
+            matchesUsername(mute.username, username) === true)
+      );
+  }
+
+  /**
+   * Remember what an admin did and save everything, the oldest entries go
+   * once there are more than `auditLogLimit`
+   */
+  public record(action: AuditAction, target: string, detail?: string): void {
+    this.audit.push({ action, at: Date.now(), detail, target });
+
+    if (this.audit.length > auditLogLimit) {
+      this.audit.splice(0, this.audit.length - auditLogLimit);
+    }
+
+    this.save();
+  }
+}
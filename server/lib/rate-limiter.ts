@@ -0,0 +1,68 @@
+/*
+
+Token bucket rate limiting so one client can't flood everyone else.
+
+*/
+
+import { IRateLimit, IRateLimitHashTable } from "./config";
+
+export interface ITokenBucketHashTable {
+  [key: string]: TokenBucket;
+}
+
+/**
+ * Holds up to `burst` tokens and refills at `perSecond`. Each event
+ * takes one token.
+ */
+export class TokenBucket {
+  public tokens: number;
+  public updatedAt: number = Date.now();
+
+  constructor(public limit: IRateLimit) {
+    this.tokens = limit.burst;
+  }
+
+  /**
+   * True if there was a token left for the event
+   */
+  public take(now: number = Date.now()): boolean {
+    const { burst, perSecond } = this.limit;
+    const elapsedMs = Math.max(now - this.updatedAt, 0);
+    this.tokens = Math.min(burst, this.tokens + (elapsedMs / 1000) * perSecond);
+    this.updatedAt = now;
+
+    if (this.tokens < 1) {
+      return false;
+    }
+
+    this.tokens -= 1;
+    return true;
+  }
+}
+
+/**
+ * One bucket for each event type of one socket
+ */
+export class RateLimiter {
+  public buckets: ITokenBucketHashTable = {};
+
+  constructor(public limits: IRateLimitHashTable) {}
+
+  /**
+   * True if the event is allowed. Events without a limit always are.
+   */
+  public take(eventName: string, now: number = Date.now()): boolean {
+    const { buckets, limits } = this;
+    const limit = limits[eventName];
+
+    if (limit === undefined) {
+      return true;
+    }
+
+    if (buckets[eventName] === undefined) {
+      buckets[eventName] = new TokenBucket(limit);
+    }
+
+    return buckets[eventName].take(now);
+  }
+}
@@ -0,0 +1,221 @@
+/*
+
+Rooms keep separate worlds on one server. Every room has its own
+characters, bounds, and interest, and the sockets in it only hear about
+what happens there. Rooms are opened when the first socket asks for them
+and closed once the last socket left and its characters are gone.
+
+*/
+
+import { EventEmitter } from "events";
+import * as socketio from "socket.io";
+import { ISceneBounds } from "./bounds";
+import { Character } from "./character";
+import { CharacterManager } from "./character-manager";
+import { ChangeLog } from "./change-log";
+import { chatFilters } from "./chat-filter";
+import { ChatManager } from "./chat-manager";
+import { BoundsPolicy } from "./config";
+import { createDoor, EntityManager } from "./entity-manager";
+import { applyEntityRules } from "./entity-rules";
+import { InterestManager } from "./interest";
+import { WireProtocol } from "./protocol";
+import { SessionManager } from "./session";
+import { usernameFilters } from "./username-filter";
+
+/**
+ * The socket of each character which joined, and how to talk to it
+ */
+export interface IConnection {
+  socket: socketio.Socket;
+  protocol: WireProtocol;
+}
+
+export interface IConnectionHashTable {
+  [key: string]: IConnection;
+}
+
+/**
+ * What every new room starts with
+ */
+export interface IRoomOptions {
+  bounds: ISceneBounds;
+  boundsPolicy: BoundsPolicy;
+  capacity: number;
+  chatHistoryLimit: number;
+  interestRadius: number;
+  resumeGraceMs: number;
+  tombstoneLimit: number;
+}
+
+export interface IRoomHashTable {
+  [key: string]: Room;
+}
+
+export class Room {
+  // "lobby#1", "lobby#2" when the first one is full
+  public id: string;
+  public characterManager = new CharacterManager();
+  public interestManager: InterestManager;
+  public sessionManager: SessionManager;
+  public changeLog: ChangeLog;
+  public entityManager = new EntityManager();
+  public chatManager: ChatManager;
+  public connections: IConnectionHashTable = {};
+  public capacity: number;
+  public sockets: number = 0;
+
+  constructor(
+    public name: string,
+    public instance: number,
+    options: IRoomOptions
+  ) {
+    this.id = `${name}#${instance}`;
+    this.capacity = options.capacity;
+    this.characterManager.boundsPolicy = options.boundsPolicy;
+    this.characterManager.setBounds(options.bounds);
+    this.characterManager.uniqueUsernames = true;
+    usernameFilters.forEach((filter) =>
+      this.characterManager.addUsernameFilter(filter)
+    );
+    this.interestManager = new InterestManager(options.interestRadius);
+    this.sessionManager = new SessionManager(options.resumeGraceMs);
+    this.changeLog = new ChangeLog(options.tombstoneLimit);
+    this.chatManager = new ChatManager(options.chatHistoryLimit);
+    chatFilters.forEach((filter) => this.chatManager.addFilter(filter));
+
+    // every change bumps the version clients resync from
+    const { changeLog, characterManager, sessionManager } = this;
+    const change = (char: Character) => changeLog.change(char.id);
+    characterManager.on("join", change);
+    characterManager.on("update", change);
+    characterManager.on("rename", change);
+    characterManager.on("part", (partEvent, char) => {
+      changeLog.part(char.id);
+      sessionManager.end(char.id);
+    });
+
+    // the server decides what the shared objects do
+    const { entityManager } = this;
+    const applyRules = () =>
+      applyEntityRules(entityManager, characterManager.characterList());
+    entityManager.addEntity(createDoor());
+    characterManager.on("join", applyRules);
+    characterManager.on("update", applyRules);
+    characterManager.on("part", applyRules);
+  }
+
+  /**
+   * The socket.io room for everyone in it, or only the ones using a
+   * given wire protocol
+   */
+  public channel(protocol?: WireProtocol): string {
+    return protocol !== undefined ? `${this.id} ${protocol}` : this.id;
+  }
+
+  /**
+   * Characters waiting to be resumed keep their place
+   */
+  public isFull(): boolean {
+    const taken = this.sockets + this.sessionManager.suspendedCount();
+    return this.capacity > 0 && taken >= this.capacity;
+  }
+
+  public isEmpty(): boolean {
+    return (
+      this.sockets === 0 && this.characterManager.characterList().length === 0
+    );
+  }
+}
+
+export interface RoomManager {
+  on(event: "open", listener: (room: Room) => void): this;
+  on(event: "close", listener: (room: Room) => void): this;
+  emit(event: "open", room: Room): boolean;
+  emit(event: "close", room: Room): boolean;
+}
+
+export class RoomManager extends EventEmitter {
+  public rooms: IRoomHashTable = {};
+
+  constructor(public options: IRoomOptions) {
+    super();
+  }
+
+  /**
+   * Put a socket in the first instance of the room with space left,
+   * opening a new one when they're all full
+   */
+  public enter(name: string): Room {
+    let instance = 1;
+    let room = this.rooms[`${name}#${instance}`];
+
+    while (room !== undefined && room.isFull() === true) {
+      instance += 1;
+      room = this.rooms[`${name}#${instance}`];
+    }
+
+    if (room === undefined) {
+      room = new Room(name, instance, this.options);
+      this.rooms[room.id] = room;
+      this.emit("open", room);
+
+      // the last character can part long after its socket left, when
+      // its session or idle time runs out
+      const newRoom = room;
+      room.characterManager.on("part", () => this.closeIfEmpty(newRoom));
+    }
+
+    room.sockets += 1;
+    return room;
+  }
+
+  /**
+   * Find the instance of the room where the token can resume the character
+   */
+  public findSession(
+    name: string,
+    id: string,
+    token: string
+  ): Room | undefined {
+    return this.roomList()
+      .filter((room) => room.name === name)
+      .find((room) => room.sessionManager.isValid(id, token) === true);
+  }
+
+  /**
+   * Put a socket back in the room it's resuming, even when it's full
+   */
+  public reenter(room: Room): Room {
+    room.sockets += 1;
+    return room;
+  }
+
+  /**
+   * Take a socket out of the room and close it when it's empty
+   */
+  public leave(room: Room): void {
+    room.sockets -= 1;
+    this.closeIfEmpty(room);
+  }
+
+  /**
+   * Close the room once the last socket left and its characters are gone
+   */
+  public closeIfEmpty(room: Room): void {
+    if (room.isEmpty() === false || this.rooms[room.id] !== room) {
+      return;
+    }
+
+    delete this.rooms[room.id];
+    room.characterManager.removeAllListeners();
+    room.entityManager.removeAllListeners();
+    room.chatManager.removeAllListeners();
+    this.emit("close", room);
+  }
+
+  public roomList(): Room[] {
+    const { rooms } = this;
+    return Object.keys(rooms).map((id) => rooms[id]);
+  }
+}
@@ -0,0 +1,57 @@
+/*
+
+The server builds the scene bounds from the same scene.json which
+Decentraland uses for the scene.
+
+*/
+
+import { readFileSync } from "fs";
+import { createSceneBounds, ISceneBounds } from "./bounds";
+import { OptionalError } from "./character-manager";
+
+const isString = require("lodash/isString");
+
+export type SceneBoundsResultTuple = [ISceneBounds | undefined, OptionalError];
+
+/**
+ * The part of scene.json we read, until it's checked
+ */
+interface ISceneJson {
+  scene: {
+    parcels: string[];
+    base: string;
+  };
+}
+
+/**
+ * Read `scene.parcels` and `scene.base` from a scene.json file
+ */
+export function readSceneBounds(filePath: string): SceneBoundsResultTuple {
+  let sceneJson: ISceneJson;
+
+  try {
+    sceneJson = JSON.parse(readFileSync(filePath, "utf8"));
+  } catch (e) {
+    return [undefined, e as Error];
+  }
+
+  const { scene } = sceneJson || ({} as ISceneJson);
+
+  if (
+    scene === undefined ||
+    scene === null ||
+    Array.isArray(scene.parcels) === false ||
+    scene.parcels.every(isString) === false ||
+    isString(scene.base) === false
+  ) {
+    return [undefined, new Error("scene.json is missing scene.parcels/base")];
+  }
+
+  const bounds = createSceneBounds(scene.parcels, scene.base);
+
+  if (bounds === undefined) {
+    return [undefined, new Error("scene.json has invalid parcel coordinates")];
+  }
+
+  return [bounds, undefined];
+}
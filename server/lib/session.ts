@@ -0,0 +1,126 @@
+/*
+
+Sessions let a client which lost its socket pick its character back up.
+The character stays in the room for a grace period after a disconnect,
+and a new socket presenting the id and token takes it over without anyone
+seeing it part and join again. The client then gets the differences
+since the version of the world it left at.
+
+*/
+
+import { timingSafeEqual } from "crypto";
+import { ITimerHashTable } from "./character-manager";
+
+export interface ISession {
+  id: string;
+  token: string;
+  // the version of the world when the socket went away, undefined while
+  // connected
+  suspendedAt?: number;
+}
+
+export interface ISessionHashTable {
+  [key: string]: ISession;
+}
+
+export class SessionManager {
+  public sessions: ISessionHashTable = {};
+  public graceTimers: ITimerHashTable = {};
+
+  constructor(public graceMs: number) {}
+
+  /**
+   * Start a session for the id, or replace its token when resuming
+   */
+  public issue(id: string, token: string): void {
+    const session = this.sessions[id];
+
+    if (session !== undefined) {
+      session.token = token;
+      return;
+    }
+
+    this.sessions[id] = { id, token };
+  }
+
+  /**
+   * True if the token is the one we issued for the id
+   */
+  public isValid(id: string, token: string): boolean {
+    const session = this.sessions[id];
+
+    if (session === undefined || typeof token !== "string") {
+      return false;
+    }
+
+    const expected = Buffer.from(session.token);
+    const actual = Buffer.from(token);
+    return (
+      expected.length === actual.length &&
+      timingSafeEqual(expected, actual) === true
+    );
+  }
+
+  public isSuspended(id: string): boolean {
+    const session = this.sessions[id];
+    return session !== undefined && session.suspendedAt !== undefined;
+  }
+
+  /**
+   * Count the sessions waiting for their socket to come back
+   */
+  public suspendedCount(): number {
+    const { sessions } = this;
+    return Object.keys(sessions).filter((id) => this.isSuspended(id)).length;
+  }
+
+  /**
+   * The socket went away, `expire` runs if it doesn't come back in time
+   */
+  public suspend(id: string, version: number, expire: () => void): void {
+    const session = this.sessions[id];
+
+    if (session === undefined) {
+      return;
+    }
+
+    this.cancelGrace(id);
+    session.suspendedAt = version;
+    this.graceTimers[id] = setTimeout(() => {
+      delete this.graceTimers[id];
+      expire();
+    }, this.graceMs);
+  }
+
+  /**
+   * A new socket took over, returns the version when the old one went away
+   */
+  public resume(id: string): number | undefined {
+    const session = this.sessions[id];
+
+    if (session === undefined) {
+      return undefined;
+    }
+
+    const { suspendedAt } = session;
+    this.cancelGrace(id);
+    delete session.suspendedAt;
+    return suspendedAt;
+  }
+
+  /**
+   * The character is gone, the token can't bring it back
+   */
+  public end(id: string): void {
+    this.cancelGrace(id);
+    delete this.sessions[id];
+  }
+
+  public cancelGrace(id: string): void {
+    if (this.graceTimers[id] === undefined) {
+      return;
+    }
+    clearTimeout(this.graceTimers[id]);
+    delete this.graceTimers[id];
+  }
+}
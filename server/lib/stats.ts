@@ -0,0 +1,42 @@
+/*
+
+Counters for what the server is doing so we can see it in the logs.
+
+*/
+
+export interface IStatsHashTable {
+  [key: string]: number;
+}
+
+export class ServerStats {
+  public counters: IStatsHashTable = {};
+  public changed: boolean = false;
+
+  public increment(key: string, amount: number = 1): void {
+    this.counters[key] = (this.counters[key] || 0) + amount;
+    this.changed = true;
+  }
+
+  public set(key: string, value: number): void {
+    if (this.counters[key] !== value) {
+      this.counters[key] = value;
+      this.changed = true;
+    }
+  }
+
+  /**
+   * A copy of the counters sorted by key
+   */
+  public snapshot(): IStatsHashTable {
+    const { counters } = this;
+    const copy: IStatsHashTable = {};
+
+    Object.keys(counters)
+      .sort()
+      .forEach((key) => {
+        copy[key] = counters[key];
+      });
+
+    return copy;
+  }
+}
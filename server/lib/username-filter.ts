@@ -0,0 +1,27 @@
+/*
+
+Filters every username goes through on the server, when characters
+join and when they rename themselves. Add your own to `usernameFilters`
+to refuse more names.
+
+*/
+
+import { UsernameFilter } from "./character-manager";
+
+/**
+ * Words which can't be anywhere in a username, in lowercase
+ */
+export const blockedWords: string[] = [];
+
+/**
+ * Refuse usernames containing any of the words, whatever the case
+ */
+export const wordFilter = (words: string[]): UsernameFilter => (username) => {
+  const lowercase = username.toLowerCase();
+  return words.every((word) => lowercase.indexOf(word) === -1);
+};
+
+/**
+ * The filters each room starts with
+ */
+export const usernameFilters: UsernameFilter[] = [wordFilter(blockedWords)];
@@ -1,25 +1,166 @@
 import * as cors from "cors";
+import { Vector3Component } from "decentraland-api";
 import * as express from "express";
 import * as http from "http";
+import * as path from "path";
 import * as socketio from "socket.io";
+import { adminRouter } from "./lib/admin";
+import { defaultSceneBounds } from "./lib/bounds";
+import { Character } from "./lib/character";
 import {
-  CharacterManager,
+  attributesDiff,
+  EventResultTuple,
+  IBannedEvent,
+  ICharacterActionEvent,
+  ICharacterAttributesEvent,
+  ICharacterIdentityEvent,
   ICharacterJoinEvent,
+  ICharacterLatencyEvent,
   ICharacterPartEvent,
   ICharacterPingEvent,
+  ICharacterPongEvent,
   ICharacterPositionEvent,
   ICharacterRotationEvent,
+  ICharacterSnapshotEvent,
   ICharacterUsernameEvent,
+  IEventRejectedEvent,
+  IRateLimitedEvent,
+  IResyncEvent,
+  IWorldDiffEvent,
+  IWorldSnapshotEvent,
+  OptionalError,
+  staleUpdateError,
 } from "./lib/character-manager";
-import { socketPath } from "./lib/config";
-
-const throttle = require("lodash/throttle");
+import { IChatHistoryEvent, IChatMessageEvent } from "./lib/chat-manager";
+import {
+  actionDurationMs,
+  BoundsPolicy,
+  boundsPolicy,
+  chatHistoryLimit,
+  defaultRoom,
+  handlerLatencyBuckets,
+  interestRadius,
+  rateLimitDisconnectDrops,
+  rateLimits,
+  rateLimitWarnDrops,
+  rateLimitWindowMs,
+  resumeGraceMs,
+  roomCapacity,
+  socketPath,
+  statsLogMs,
+  tickRateHz,
+  tombstoneLimit,
+} from "./lib/config";
+import { IEntity, IEntitySnapshotEvent } from "./lib/entity-manager";
+import { codedError, EventAck, eventError, isEventAck } from "./lib/errors";
+import {
+  clampVector3,
+  isValidBoundsPolicy,
+  isValidId,
+  isValidRoomName,
+  isValidToken,
+  isValidVector3Component,
+} from "./lib/formats";
+import { createIdentity, randomToken } from "./lib/identity";
+import { InterestChange } from "./lib/interest";
+import { MetricsRegistry, payloadBytes, secondsSince } from "./lib/metrics";
+import { IBan, ModerationList } from "./lib/moderation";
+import {
+  decodeVector3,
+  dequantizePosition,
+  dequantizeRotation,
+  encodeVector3,
+  IDecodedVector3,
+  isValidWireProtocol,
+  IWireProtocolEvent,
+  jsonEventName,
+  positionBinaryEvent,
+  positionKind,
+  QuantizedVector3,
+  quantizePosition,
+  quantizeRotation,
+  rotationBinaryEvent,
+  rotationKind,
+  WireProtocol,
+} from "./lib/protocol";
+import { RateLimiter } from "./lib/rate-limiter";
+import { Room, RoomManager } from "./lib/room";
+import { readSceneBounds } from "./lib/scene-json";
+import { ServerStats } from "./lib/stats";
 
-const { HTTP_HOST = "127.0.0.1", HTTP_PORT = "8835" } = process.env;
+const {
+  HTTP_HOST = "127.0.0.1",
+  HTTP_PORT = "8835",
+  BOUNDS_POLICY = boundsPolicy,
+  SCENE_JSON = path.join(__dirname, "..", "scene", "scene.json"),
+  TICK_RATE = tickRateHz.toString(),
+  INTEREST_RADIUS = interestRadius.toString(),
+  ROOM_CAPACITY = roomCapacity.toString(),
+  ADMIN_SECRET = "",
+  MODERATION_JSON = path.join(__dirname, "moderation.json"),
+} = process.env;
 const httpPort: number = parseInt(HTTP_PORT, 10);
+const tickRate: number = parseFloat(TICK_RATE);
+const tickMode: boolean = tickRate > 0;
 const expressApp: express.Application = express();
 const httpServer: http.Server = http.createServer(expressApp);
-const characterManager = new CharacterManager();
+const serverStats = new ServerStats();
+const metrics = new MetricsRegistry();
+const notOwnerError = codedError(
+  "NOT_OWNER",
+  "the socket doesn't own that character"
+);
+const notJoinedError = codedError("NOT_JOINED", "the socket didn't join yet");
+const binaryFormatError = codedError("MALFORMED", "malformed binary message");
+const mutedError = codedError("MUTED", "the character is muted");
+const rateLimitedError = codedError("RATE_LIMITED", "too many events");
+
+/**
+ * An event name and its payload, or undefined when there's nothing to send
+ */
+type OutgoingMessage = [string, any] | undefined;
+
+// "reject", "clamp", or "mark" characters that go out of bounds
+const roomBoundsPolicy: BoundsPolicy =
+  isValidBoundsPolicy(BOUNDS_POLICY) === true
+    ? (BOUNDS_POLICY as BoundsPolicy)
+    : boundsPolicy;
+
+if (roomBoundsPolicy !== BOUNDS_POLICY) {
+  console.error("invalid BOUNDS_POLICY", BOUNDS_POLICY, "using", boundsPolicy);
+}
+
+// the parcels in scene.json decide where the characters can go
+const [sceneBounds, sceneBoundsError] = readSceneBounds(SCENE_JSON);
+
+if (sceneBounds === undefined) {
+  console.error("error reading scene bounds", SCENE_JSON, sceneBoundsError);
+}
+
+// the bans and mutes are kept across restarts
+const moderationList = new ModerationList(MODERATION_JSON);
+const [, moderationError] = moderationList.load();
+
+// starting without the bans would let everyone back in
+if (moderationError !== undefined) {
+  console.error(
+    "error reading moderation list, fix or remove it",
+    MODERATION_JSON,
+    moderationError
+  );
+  process.exit(1);
+}
+
+// every room gets its own characters, with the same rules
+const roomManager = new RoomManager({
+  bounds: sceneBounds !== undefined ? sceneBounds : defaultSceneBounds,
+  boundsPolicy: roomBoundsPolicy,
+  capacity: parseInt(ROOM_CAPACITY, 10) || 0,
+  chatHistoryLimit,
+  interestRadius: parseFloat(INTEREST_RADIUS) || 0,
+  resumeGraceMs,
+  tombstoneLimit,
+});
 
 // socket.io: receive messages from browser clients
 const socketServer: socketio.Server = socketio(httpServer, {
@@ -28,9 +169,59 @@ const socketServer: socketio.Server = socketio(httpServer, {
   transports: ["websocket"],
 });
 
+// what Prometheus scrapes
+metrics.gauge("sync_sockets", "Connected sockets");
+metrics.gauge("sync_rooms", "Open room instances");
+metrics.gauge("sync_characters", "Characters in each room");
+metrics.counter("sync_connections_total", "Sockets which connected");
+metrics.counter("sync_events_received_total", "Events received by type");
+metrics.counter("sync_received_bytes_total", "Payload bytes received by type");
+metrics.counter(
+  "sync_events_broadcast_total",
+  "Events relayed to other characters by type, once per channel or socket"
+);
+metrics.counter(
+  "sync_broadcast_bytes_total",
+  "Payload bytes relayed to other characters by type"
+);
+metrics.counter(
+  "sync_events_rejected_total",
+  "Events refused by type and error code, VALIDATION_FAILED among them"
+);
+metrics.counter("sync_events_rate_limited_total", "Events dropped by type");
+metrics.counter(
+  "sync_character_parts_total",
+  "Characters which parted by reason, expired ones went idle"
+);
+metrics.histogram(
+  "sync_handler_duration_seconds",
+  "Time spent handling an event by type",
+  handlerLatencyBuckets
+);
+
 // we're communicating across different ports(origin) from the preview
 expressApp.use(cors());
 
+expressApp.get("/metrics", sendMetrics);
+
+// moderating over HTTP is only possible with a secret to check
+if (ADMIN_SECRET !== "") {
+  expressApp.use(
+    "/admin",
+    adminRouter(
+      roomManager,
+      ADMIN_SECRET,
+      {
+        enforceBans,
+        kick: kickCharacter,
+        rename: renameCharacter,
+        teleport: teleportCharacter,
+      },
+      moderationList
+    )
+  );
+}
+
 /**
  * Try to gracefully shutdown the server passing an exit code to the shell
  */
@@ -77,134 +268,1295 @@ const socketError = (err: Error): void => console.error("socket error", err);
  */
 function socketServerConnection(socket: socketio.Socket): void {
   let characterId: string | undefined;
+  let rejections: number = 0;
+  let drops: number = 0;
+  let dropsWindowStart: number = Date.now();
+  let rateLimitWarned: boolean = false;
+  // the client leaves out the axes which didn't change since the last
+  // frame it sent, whatever we did with that frame
+  let positionBase: QuantizedVector3 | undefined;
+  let rotationBase: QuantizedVector3 | undefined;
+  // socket.io runs the handlers a tick after the middleware, so frames are
+  // decoded as they arrive and picked up here by the handler
+  const decodedFrames = new WeakMap<Uint8Array, IDecodedVector3>();
+  const rateLimiter = new RateLimiter(rateLimits);
   // console.log("socket connection", socket.id);
 
+  serverStats.increment("connections");
+  metrics.increment("sync_connections_total");
+  serverStats.set("sockets", Object.keys(socketServer.sockets.sockets).length);
+
+  // the client names a room, or a scene id, and gets an instance of it
+  const { query } = socket.handshake;
+  const { protocol, id: resumeId, token: resumeToken } = query;
+  const ip = socket.handshake.address;
+  const connectBan = moderationList.findBan({ id: resumeId, ip });
+
+  if (connectBan !== undefined) {
+    return disconnectBanned(socket, connectBan);
+  }
+  const roomName =
+    isValidRoomName(query.room) === true ? query.room : defaultRoom;
+
+  // a client coming back with its id and token takes its character over
+  const resumeRoom =
+    isValidId(resumeId) === true && isValidToken(resumeToken) === true
+      ? roomManager.findSession(roomName, resumeId, resumeToken)
+      : undefined;
+  const room =
+    resumeRoom !== undefined
+      ? roomManager.reenter(resumeRoom)
+      : roomManager.enter(roomName);
+  const {
+    changeLog,
+    characterManager,
+    chatManager,
+    connections,
+    interestManager,
+    sessionManager,
+  } = room;
+
+  // the server picks the id, the client can only use what it's given
+  const identity: ICharacterIdentityEvent =
+    resumeRoom !== undefined
+      ? { id: resumeId, token: randomToken(), resumed: true }
+      : createIdentity(
+          (id: string) =>
+            characterManager.owners[id] !== undefined ||
+            characterManager.characters[id] !== undefined
+        );
+  sessionManager.issue(identity.id, identity.token);
+
+  if (identity.resumed !== true) {
+    characterManager.claimOwnership(identity.id, socket.id);
+  }
+
+  // binary for position and rotation if the client asks, JSON otherwise
+  const wireProtocol: WireProtocol =
+    isValidWireProtocol(protocol) === true ? protocol : "json";
+  socket.join(room.channel());
+  socket.join(room.channel(wireProtocol));
+
   socket.on("error", socketError);
 
-  const introduceCharacters = throttle(() => {
-    // console.log("introduce", socket.id);
-    // when the user joins send them all the characters we know of
-    characterManager
-      .characterList()
-      .filter((item) => item.id !== characterId)
-      .forEach((char) => {
-        socket.emit("character-join", char);
-      });
-  }, 1000);
+  // the scene validates with the same bounds as the server
+  socket.emit("scene-bounds", characterManager.bounds);
+
+  /**
+   * Everyone but us, and only who we can see when there's a radius
+   */
+  function visibleCharacters(characters: Character[]): Character[] {
+    return characters
+      .filter((char) => char !== undefined && char.id !== characterId)
+      .filter(
+        (char) =>
+          characterId === undefined ||
+          interestManager.canSee(characterId, char.id) === true
+      );
+  }
+
+  /**
+   * When the user joins send them all the characters we know of at once
+   */
+  function sendWorldSnapshot(): void {
+    const snapshotEvent: IWorldSnapshotEvent = {
+      characters: visibleCharacters(characterManager.characterList()),
+      version: changeLog.version,
+    };
+    socket.emit("world-snapshot", snapshotEvent);
+  }
+
+  /**
+   * Only what changed since the version the client has, or everything when
+   * we don't remember that far back
+   */
+  function sendWorldDiff(from: number): void {
+    if (changeLog.canDiff(from) === false) {
+      return sendWorldSnapshot();
+    }
+
+    const [changed, parted] = changeLog.changedSince(from);
+    const diffEvent: IWorldDiffEvent = {
+      characters: visibleCharacters(
+        changed.map((id) => characterManager.characters[id])
+      ),
+      from,
+      parted,
+      version: changeLog.version,
+    };
+    socket.emit("world-diff", diffEvent);
+  }
+
+  /**
+   * Catch a character joining up on what was said before
+   */
+  function sendChatHistory(): void {
+    const historyEvent: IChatHistoryEvent = { messages: chatManager.messages };
+    socket.emit("chat-history", historyEvent);
+  }
+
+  /**
+   * Tell the sender its event went through, if it asked
+   */
+  function acceptEvent(ack?: EventAck): void {
+    if (isEventAck(ack) === true) {
+      ack({ ok: true });
+    }
+  }
+
+  /**
+   * Count the event as rejected and let the sender know why, through the
+   * acknowledgement when it asked for one
+   */
+  function rejectEvent(
+    eventName: string,
+    error: OptionalError,
+    evt: any,
+    ack?: EventAck
+  ): void {
+    const rejection = eventError(error);
+    metrics.increment("sync_events_rejected_total", {
+      code: rejection.code,
+      event: eventName,
+    });
+
+    // late updates are expected around reconnects, drop them quietly
+    if (error === staleUpdateError) {
+      serverStats.increment(`stale ${eventName}`);
+
+      if (isEventAck(ack) === true) {
+        ack({ ok: false, error: rejection });
+      }
+
+      return;
+    }
+
+    rejections += 1;
+    console.error(`${eventName} error`, socket.id, error, evt);
+
+    if (isEventAck(ack) === true) {
+      ack({ ok: false, error: rejection });
+      return;
+    }
+
+    const rejectedEvent: IEventRejectedEvent = {
+      code: rejection.code,
+      event: eventName,
+      field: rejection.field,
+      reason: rejection.message,
+      rejections,
+    };
+    socket.emit("event-rejected", rejectedEvent);
+  }
+
+  /**
+   * Drop an event over the rate limit. Sockets which keep doing it are
+   * warned and then disconnected.
+   */
+  function dropEvent(eventName: string): void {
+    const now = Date.now();
+
+    if (now - dropsWindowStart > rateLimitWindowMs) {
+      drops = 0;
+      dropsWindowStart = now;
+      rateLimitWarned = false;
+    }
+
+    drops += 1;
+    serverStats.increment(`rate-limited ${eventName}`);
+
+    if (drops >= rateLimitDisconnectDrops) {
+      console.error("rate limit disconnect", socket.id, eventName, drops);
+      serverStats.increment("rate-limited disconnects");
+      socket.disconnect(true);
+      return;
+    }
+
+    if (drops >= rateLimitWarnDrops && rateLimitWarned === false) {
+      rateLimitWarned = true;
+      const rateLimitedEvent: IRateLimitedEvent = { event: eventName, drops };
+      socket.emit("rate-limited", rateLimitedEvent);
+    }
+  }
+
+  /**
+   * Muted by id, or by the IP or username when it came back with a new id
+   */
+  function isMuted(id: string): boolean {
+    const char = characterManager.characters[id];
+    const username = char !== undefined ? char.username : undefined;
+    return moderationList.isMuted({ id, ip, username });
+  }
+
+  /**
+   * The socket may only send events for the character it joined with
+   */
+  function ownsEvent(evt: any): boolean {
+    return (
+      evt !== undefined &&
+      evt !== null &&
+      characterManager.isOwner(evt.id, socket.id) === true
+    );
+  }
+
+  // every incoming event goes through the rate limiter first
+  socket.use(
+    (packet: socketio.Packet, next: (err?: any) => void): void => {
+      const [eventName, ...args] = packet;
+      const ack = packet[packet.length - 1];
+      // clients can send any name, only count the ones we handle
+      const event = socket.listenerCount(eventName) > 0 ? eventName : "unknown";
+
+      metrics.increment("sync_events_received_total", { event });
+      metrics.increment(
+        "sync_received_bytes_total",
+        { event },
+        payloadBytes(args)
+      );
+
+      // anything still buffered after a rate limit disconnect is ignored
+      if (socket.connected === false) {
+        return;
+      }
+
+      // decode binary frames in the order they came in, dropped or not
+      if (eventName === positionBinaryEvent) {
+        decodeFrame(positionKind, args[0]);
+      }
+
+      if (eventName === rotationBinaryEvent) {
+        decodeFrame(rotationKind, args[0]);
+      }
+
+      // binary and JSON positions or rotations take from the same bucket
+      if (rateLimiter.take(jsonEventName(eventName)) === true) {
+        const start = process.hrtime();
+        next();
+
+        // socket.io calls the handler on the next tick, this runs after it
+        process.nextTick(() =>
+          metrics.observe(
+            "sync_handler_duration_seconds",
+            { event },
+            secondsSince(start)
+          )
+        );
+        return;
+      }
+
+      metrics.increment("sync_events_rate_limited_total", { event });
+
+      if (isEventAck(ack) === true) {
+        ack({ ok: false, error: eventError(rateLimitedError) });
+      }
+
+      dropEvent(eventName);
+    }
+  );
 
   socket.on(
     "disconnect",
     (): void => {
-      if (characterId !== undefined) {
-        const partEvent = { id: characterId };
-        characterManager.characterPart(partEvent);
-        socketServer.emit("character-part", partEvent);
+      serverStats.set(
+        "sockets",
+        Object.keys(socketServer.sockets.sockets).length
+      );
+
+      // a resumed socket took the character over, it's not ours anymore
+      if (characterManager.isOwner(identity.id, socket.id) === false) {
+        return roomManager.leave(room);
+      }
+
+      characterManager.releaseOwnership(identity.id, socket.id);
+
+      if (characterId !== undefined && connections[characterId] !== undefined) {
+        if (connections[characterId].socket === socket) {
+          delete connections[characterId];
+        }
       }
+
+      // keep the character around in case the client comes back for it,
+      // unless it was kicked
+      if (
+        characterId !== undefined &&
+        characterManager.characters[characterId] !== undefined
+      ) {
+        const id = characterId;
+        sessionManager.suspend(id, changeLog.version, () =>
+          characterManager.characterPart({ id, reason: "disconnect" })
+        );
+      } else {
+        sessionManager.end(identity.id);
+      }
+
+      roomManager.leave(room);
     }
   );
 
   socket.on(
     "character-join",
-    (joinEvent: ICharacterJoinEvent): void => {
+    (joinEvent: ICharacterJoinEvent, ack?: EventAck): void => {
+      // it has to be the id we issued to this socket
+      if (ownsEvent(joinEvent) === false) {
+        return rejectEvent("character-join", notOwnerError, joinEvent, ack);
+      }
+
+      const { id: joinId, username } = joinEvent;
+      const joinBan = moderationList.findBan({ id: joinId, ip, username });
+
+      if (joinBan !== undefined) {
+        return disconnectBanned(socket, joinBan);
+      }
+
       const [success, error] = characterManager.characterJoin(joinEvent);
 
       if (success === true) {
         // console.log("character join", joinEvent);
         const { id } = joinEvent;
         characterId = id;
-        socket.broadcast.emit("character-join", joinEvent);
-        introduceCharacters();
+        characterManager.assignSlot(id);
+        connections[id] = { socket, protocol: wireProtocol };
+
+        // relay what we stored, after the bounds policy was applied
+        if (interestManager.isEnabled() === true) {
+          updateInterest(room, characterManager.characters[id]);
+        } else {
+          broadcast(socket.to(room.channel()), [
+            "character-join",
+            characterManager.characters[id],
+          ]);
+        }
+
+        acceptEvent(ack);
+        sendWorldSnapshot();
+        sendChatHistory();
         return;
       }
 
-      console.error("character join error", error, joinEvent);
+      rejectEvent("character-join", error, joinEvent, ack);
     }
   );
 
   socket.on(
     "character-part",
-    (partEvent: ICharacterPartEvent): void => {
-      const [success, error] = characterManager.characterPart(partEvent);
+    (partEvent: ICharacterPartEvent, ack?: EventAck): void => {
+      if (ownsEvent(partEvent) === false) {
+        return rejectEvent("character-part", notOwnerError, partEvent, ack);
+      }
+
+      // the "part" listener broadcasts it
+      const { id } = partEvent;
+      const [success, error] = characterManager.characterPart({
+        id,
+        reason: "left",
+      });
 
       if (success === true) {
         // console.log("character part", partEvent);
-        const { id } = partEvent;
-        characterId = id;
-        socket.broadcast.emit("character-part", partEvent);
-        introduceCharacters();
+        acceptEvent(ack);
         return;
       }
 
-      console.error("character part error", error, partEvent);
+      rejectEvent("character-part", error, partEvent, ack);
     }
   );
 
   socket.on(
     "character-username",
-    (usernameEvent: ICharacterUsernameEvent): void => {
+    (usernameEvent: ICharacterUsernameEvent, ack?: EventAck): void => {
+      if (ownsEvent(usernameEvent) === false) {
+        return rejectEvent(
+          "character-username",
+          notOwnerError,
+          usernameEvent,
+          ack
+        );
+      }
+
+      if (isMuted(usernameEvent.id) === true) {
+        return rejectEvent(
+          "character-username",
+          mutedError,
+          usernameEvent,
+          ack
+        );
+      }
+
+      // joining as an allowed name doesn't get around the username bans
+      const { id: renameId, username: renameTo } = usernameEvent;
+      const renameBan = moderationList.findBan({
+        id: renameId,
+        ip,
+        username: renameTo,
+      });
+
+      if (renameBan !== undefined) {
+        characterManager.characterPart({ id: renameId, reason: "kicked" });
+        return disconnectBanned(socket, renameBan);
+      }
+
       const [success, error] = characterManager.updateCharacterUsername(
         usernameEvent
       );
 
       if (success === true) {
         // console.log("character username", usernameEvent);
-        socket.broadcast.emit("character-username", usernameEvent);
+        acceptEvent(ack);
+        const char = characterManager.characters[usernameEvent.id];
+        relayCharacterEvent(room, socket, char, [
+          "character-username",
+          usernameEvent,
+        ]);
         return;
       }
 
-      console.error("character username error", error, usernameEvent);
+      rejectEvent("character-username", error, usernameEvent, ack);
     }
   );
 
+  /**
+   * Store a position and relay it, from either the JSON or binary event
+   */
+  function characterPosition(
+    eventName: string,
+    positionEvent: ICharacterPositionEvent,
+    ack?: EventAck
+  ): void {
+    if (ownsEvent(positionEvent) === false) {
+      return rejectEvent(eventName, notOwnerError, positionEvent, ack);
+    }
+
+    const { id } = positionEvent;
+    const previous = characterPositionOf(room, id);
+    const [success, error] = characterManager.updateCharacterPosition(
+      positionEvent
+    );
+
+    if (success === true) {
+      // console.log("character position", positionEvent);
+      acceptEvent(ack);
+      updateInterest(room, characterManager.characters[id]);
+
+      // the next tick sends it
+      if (tickMode === true) {
+        return;
+      }
+
+      relayPosition(room, socket, characterManager.characters[id], previous);
+      return;
+    }
+
+    rejectEvent(eventName, error, positionEvent, ack);
+  }
+
+  /**
+   * Store a rotation and relay it, from either the JSON or binary event
+   */
+  function characterRotation(
+    eventName: string,
+    rotationEvent: ICharacterRotationEvent,
+    ack?: EventAck
+  ): void {
+    if (ownsEvent(rotationEvent) === false) {
+      return rejectEvent(eventName, notOwnerError, rotationEvent, ack);
+    }
+
+    const { id } = rotationEvent;
+    const previous = characterRotationOf(room, id);
+    const [success, error] = characterManager.updateCharacterRotation(
+      rotationEvent
+    );
+
+    if (success === true) {
+      // console.log("character rotation", rotationEvent);
+      acceptEvent(ack);
+      // the next tick sends it
+      if (tickMode === true) {
+        return;
+      }
+
+      relayRotation(room, socket, characterManager.characters[id], previous);
+      return;
+    }
+
+    rejectEvent(eventName, error, rotationEvent, ack);
+  }
+
+  /**
+   * The decoded binary message and the character it's about
+   */
+  function decodeBinary(
+    eventName: string,
+    data: Uint8Array,
+    ack?: EventAck
+  ): [Character, IDecodedVector3] | undefined {
+    const decoded = decodedFrames.get(data);
+
+    if (decoded === undefined) {
+      rejectEvent(eventName, binaryFormatError, data, ack);
+      return undefined;
+    }
+
+    const char =
+      characterId !== undefined
+        ? characterManager.characters[characterId]
+        : undefined;
+
+    if (char === undefined) {
+      rejectEvent(eventName, notJoinedError, data, ack);
+      return undefined;
+    }
+
+    return [char, decoded];
+  }
+
+  /**
+   * Decode a frame against the last one the socket sent and make it the
+   * base for the next, whatever happens to it afterwards
+   */
+  function decodeFrame(kind: number, data: unknown): void {
+    if (data instanceof Uint8Array === false) {
+      return;
+    }
+
+    const base = kind === positionKind ? positionBase : rotationBase;
+    const decoded = decodeVector3(data, base);
+
+    if (decoded === undefined || decoded.kind !== kind) {
+      return;
+    }
+
+    if (kind === positionKind) {
+      positionBase = decoded.quantized;
+    } else {
+      rotationBase = decoded.quantized;
+    }
+
+    decodedFrames.set(data, decoded);
+  }
+
   socket.on(
     "character-position",
-    (positionEvent: ICharacterPositionEvent): void => {
-      const [success, error] = characterManager.updateCharacterPosition(
-        positionEvent
-      );
+    (positionEvent: ICharacterPositionEvent, ack?: EventAck): void =>
+      characterPosition("character-position", positionEvent, ack)
+  );
+
+  socket.on(
+    "character-rotation",
+    (rotationEvent: ICharacterRotationEvent, ack?: EventAck): void =>
+      characterRotation("character-rotation", rotationEvent, ack)
+  );
+
+  socket.on(
+    positionBinaryEvent,
+    (data: Uint8Array, ack?: EventAck): void => {
+      const { bounds } = characterManager;
+      const decoded = decodeBinary(positionBinaryEvent, data, ack);
+
+      if (decoded !== undefined) {
+        const [char, { quantized, seq }] = decoded;
+        const position = dequantizePosition(quantized, bounds);
+        characterPosition(
+          positionBinaryEvent,
+          { id: char.id, position, seq },
+          ack
+        );
+      }
+    }
+  );
+
+  socket.on(
+    rotationBinaryEvent,
+    (data: Uint8Array, ack?: EventAck): void => {
+      const decoded = decodeBinary(rotationBinaryEvent, data, ack);
+
+      if (decoded !== undefined) {
+        const [char, { quantized, seq }] = decoded;
+        const rotation = dequantizeRotation(quantized);
+        characterRotation(
+          rotationBinaryEvent,
+          { id: char.id, rotation, seq },
+          ack
+        );
+      }
+    }
+  );
+
+  socket.on(
+    "character-ping",
+    (pingEvent: ICharacterPingEvent, ack?: EventAck): void => {
+      const receivedAt = Date.now();
+
+      if (ownsEvent(pingEvent) === false) {
+        return rejectEvent("character-ping", notOwnerError, pingEvent, ack);
+      }
+
+      const pinged = characterManager.characters[pingEvent.id];
+      const previousLatency = pinged !== undefined ? pinged.latency : undefined;
+      const [success, error] = characterManager.ping(pingEvent);
 
       if (success === true) {
-        // console.log("character position", positionEvent);
-        socket.broadcast.emit("character-position", positionEvent);
+        // console.log("character ping", pingEvent);
+        acceptEvent(ack);
+        const { id, sentAt, latency } = pingEvent;
+
+        // the client works out its round trip and clock offset from this
+        if (sentAt !== undefined) {
+          const pongEvent: ICharacterPongEvent = {
+            id,
+            receivedAt,
+            repliedAt: Date.now(),
+            sentAt,
+          };
+          socket.emit("character-pong", pongEvent);
+        }
+
+        // everyone else only hears about it when it changed
+        if (latency !== undefined && latency !== previousLatency) {
+          const latencyEvent: ICharacterLatencyEvent = { id, latency };
+          relayCharacterEvent(room, socket, characterManager.characters[id], [
+            "character-latency",
+            latencyEvent,
+          ]);
+        }
+
         return;
       }
 
-      console.error("character position error", error, positionEvent);
+      rejectEvent("character-ping", error, pingEvent, ack);
     }
   );
 
   socket.on(
-    "character-rotation",
-    (rotationEvent: ICharacterRotationEvent): void => {
-      const [success, error] = characterManager.updateCharacterRotation(
-        rotationEvent
+    "character-attributes",
+    (attributesEvent: ICharacterAttributesEvent, ack?: EventAck): void => {
+      if (ownsEvent(attributesEvent) === false) {
+        return rejectEvent(
+          "character-attributes",
+          notOwnerError,
+          attributesEvent,
+          ack
+        );
+      }
+
+      const char = characterManager.characters[attributesEvent.id];
+
+      if (char === undefined) {
+        return rejectEvent(
+          "character-attributes",
+          notJoinedError,
+          attributesEvent,
+          ack
+        );
+      }
+
+      const before = { ...char.attributes };
+      const [success, error] = characterManager.updateCharacterAttributes(
+        attributesEvent
       );
 
       if (success === true) {
-        // console.log("character rotation", rotationEvent);
-        socket.broadcast.emit("character-rotation", rotationEvent);
+        // console.log("character attributes", attributesEvent);
+        acceptEvent(ack);
+        // only relay what actually changed
+        const { id, seq, sentAt } = attributesEvent;
+        const attributes = attributesDiff(before, char.attributes);
+
+        if (Object.keys(attributes).length > 0) {
+          const diffEvent: ICharacterAttributesEvent = {
+            attributes,
+            id,
+            seq,
+            sentAt,
+          };
+          relayCharacterEvent(room, socket, char, [
+            "character-attributes",
+            diffEvent,
+          ]);
+        }
+
         return;
       }
 
-      console.error("character rotation error", error, rotationEvent);
+      rejectEvent("character-attributes", error, attributesEvent, ack);
     }
   );
 
   socket.on(
-    "character-ping",
-    (pingEvent: ICharacterPingEvent): void => {
-      const [success, error] = characterManager.ping(pingEvent);
+    "character-action",
+    (actionEvent: ICharacterActionEvent, ack?: EventAck): void => {
+      if (ownsEvent(actionEvent) === false) {
+        return rejectEvent("character-action", notOwnerError, actionEvent, ack);
+      }
+
+      // it lasts as long as we say, by our clock
+      const { id, action, target, seq, sentAt } = actionEvent;
+      const expiresAt = Date.now() + actionDurationMs;
+      const relayedEvent: ICharacterActionEvent = {
+        action,
+        expiresAt,
+        id,
+        seq,
+        sentAt,
+        target,
+      };
+      const [success, error] = characterManager.characterAction(relayedEvent);
 
       if (success === true) {
-        // console.log("character ping", pingEvent);
+        // console.log("character action", relayedEvent);
+        acceptEvent(ack);
+        relayCharacterEvent(room, socket, characterManager.characters[id], [
+          "character-action",
+          relayedEvent,
+        ]);
         return;
       }
 
-      console.error("character ping error", error, pingEvent);
+      rejectEvent("character-action", error, actionEvent, ack);
+    }
+  );
+
+  socket.on(
+    "chat-message",
+    (messageEvent: IChatMessageEvent, ack?: EventAck): void => {
+      if (ownsEvent(messageEvent) === false) {
+        return rejectEvent("chat-message", notOwnerError, messageEvent, ack);
+      }
+
+      if (isMuted(messageEvent.id) === true) {
+        return rejectEvent("chat-message", mutedError, messageEvent, ack);
+      }
+
+      const char = characterManager.characters[messageEvent.id];
+
+      if (char === undefined) {
+        return rejectEvent("chat-message", notJoinedError, messageEvent, ack);
+      }
+
+      // who sent it and when comes from us, not the client
+      const [success, error] = chatManager.chatMessage({
+        id: char.id,
+        sentAt: Date.now(),
+        text: messageEvent.text,
+        username: char.username,
+      });
+
+      if (success === true) {
+        // the "message" listener relays it
+        acceptEvent(ack);
+        return;
+      }
+
+      rejectEvent("chat-message", error, messageEvent, ack);
+    }
+  );
+
+  socket.on(
+    "resync",
+    (resyncEvent: IResyncEvent): void => {
+      const { version } = resyncEvent || ({} as IResyncEvent);
+      sendWorldDiff(version);
+    }
+  );
+
+  /**
+   * Take the character over from the socket which had it, it may not know
+   * it's gone yet, and catch the client up on what happened meanwhile
+   */
+  function resumeSession(): void {
+    const { id } = identity;
+    const previous = connections[id];
+    const suspendedAt = sessionManager.resume(id);
+
+    characterManager.releaseOwnership(id, characterManager.owners[id]);
+    characterManager.claimOwnership(id, socket.id);
+    characterId = id;
+    connections[id] = { socket, protocol: wireProtocol };
+
+    if (previous !== undefined && previous.socket !== socket) {
+      previous.socket.disconnect(true);
+    }
+
+    // when the old socket is still here we don't know what it missed
+    if (suspendedAt !== undefined) {
+      sendWorldDiff(suspendedAt);
+    } else {
+      sendWorldSnapshot();
+    }
+
+    serverStats.increment("sessions resumed");
+  }
+
+  const wireProtocolEvent: IWireProtocolEvent = { protocol: wireProtocol };
+  socket.emit("wire-protocol", wireProtocolEvent);
+  socket.emit("character-identity", identity);
+
+  const entitySnapshotEvent: IEntitySnapshotEvent = {
+    entities: room.entityManager.entityList(),
+  };
+  socket.emit("entity-snapshot", entitySnapshotEvent);
+
+  if (identity.resumed === true) {
+    resumeSession();
+  }
+}
+
+/**
+ * Copy of a character's position before it changes
+ */
+function characterPositionOf(
+  room: Room,
+  id: string
+): Vector3Component | undefined {
+  const char = room.characterManager.characters[id];
+  return char !== undefined ? { ...char.position } : undefined;
+}
+
+/**
+ * Copy of a character's rotation before it changes
+ */
+function characterRotationOf(
+  room: Room,
+  id: string
+): Vector3Component | undefined {
+  const char = room.characterManager.characters[id];
+  return char !== undefined ? { ...char.rotation } : undefined;
+}
+
+/**
+ * Emit a message relayed to other characters and count it
+ */
+function broadcast(
+  target: socketio.Namespace | socketio.Socket,
+  message: [string, any]
+): void {
+  const [eventName, ...args] = message;
+  metrics.increment("sync_events_broadcast_total", { event: eventName });
+  metrics.increment(
+    "sync_broadcast_bytes_total",
+    { event: eventName },
+    payloadBytes(args)
+  );
+  target.emit(eventName, ...args);
+}
+
+/**
+ * Send a message about a character to everyone in the room who can see it,
+ * except its own socket. Binary sockets get `binaryMessage` when it's given.
+ */
+function relayCharacterEvent(
+  room: Room,
+  sender: socketio.Socket,
+  char: Character,
+  jsonMessage: OutgoingMessage,
+  binaryMessage: OutgoingMessage = jsonMessage
+): void {
+  const { connections, interestManager } = room;
+
+  if (interestManager.isEnabled() === false) {
+    if (jsonMessage !== undefined) {
+      broadcast(sender.to(room.channel("json")), jsonMessage);
+    }
+
+    if (binaryMessage !== undefined) {
+      broadcast(sender.to(room.channel("binary")), binaryMessage);
     }
+
+    return;
+  }
+
+  Object.keys(connections)
+    .filter((observerId) => observerId !== char.id)
+    .filter((observerId) => interestManager.canSee(observerId, char.id))
+    .forEach((observerId) => {
+      const { socket, protocol } = connections[observerId];
+      const message = protocol === "binary" ? binaryMessage : jsonMessage;
+
+      if (message !== undefined) {
+        broadcast(socket, message);
+      }
+    });
+}
+
+/**
+ * Send a message about a character to everyone in the room who can see
+ * it, its own socket included
+ */
+function broadcastCharacterEvent(
+  room: Room,
+  char: Character,
+  message: [string, any]
+): void {
+  const { connections, interestManager } = room;
+
+  if (interestManager.isEnabled() === false) {
+    broadcast(socketServer.to(room.channel()), message);
+    return;
+  }
+
+  Object.keys(connections)
+    .filter(
+      (observerId) =>
+        observerId === char.id ||
+        interestManager.canSee(observerId, char.id) === true
+    )
+    .forEach((observerId) =>
+      broadcast(connections[observerId].socket, message)
+    );
+}
+
+/**
+ * Send a new position to everyone else. The binary sockets only get the
+ * axes which changed unless it can't be quantized, then it's JSON.
+ */
+function relayPosition(
+  room: Room,
+  socket: socketio.Socket,
+  char: Character,
+  previous?: Vector3Component
+): void {
+  const { id, slot, position, inBounds, seq, sentAt } = char;
+  const { bounds } = room.characterManager;
+  const positionEvent: ICharacterPositionEvent = {
+    id,
+    position,
+    inBounds,
+    seq,
+    sentAt,
+  };
+  const jsonMessage: OutgoingMessage = ["character-position", positionEvent];
+  const quantized = quantizePosition(position, bounds);
+
+  if (quantized === undefined) {
+    return relayCharacterEvent(room, socket, char, jsonMessage);
+  }
+
+  const data = encodeVector3(
+    positionKind,
+    slot,
+    quantized,
+    previous !== undefined ? quantizePosition(previous, bounds) : undefined,
+    seq
+  );
+  const binaryMessage: OutgoingMessage =
+    data !== undefined ? [positionBinaryEvent, data] : undefined;
+
+  relayCharacterEvent(room, socket, char, jsonMessage, binaryMessage);
+}
+
+/**
+ * Send a new rotation to everyone else, the same way as positions
+ */
+function relayRotation(
+  room: Room,
+  socket: socketio.Socket,
+  char: Character,
+  previous?: Vector3Component
+): void {
+  const { id, slot, rotation, seq, sentAt } = char;
+  const rotationEvent: ICharacterRotationEvent = { id, rotation, seq, sentAt };
+  const jsonMessage: OutgoingMessage = ["character-rotation", rotationEvent];
+  const data = encodeVector3(
+    rotationKind,
+    slot,
+    quantizeRotation(rotation),
+    previous !== undefined ? quantizeRotation(previous) : undefined,
+    seq
   );
+  const binaryMessage: OutgoingMessage =
+    data !== undefined ? [rotationBinaryEvent, data] : undefined;
+
+  relayCharacterEvent(room, socket, char, jsonMessage, binaryMessage);
+}
 
-  socket.on("introduce", () => introduceCharacters());
+/**
+ * After a character moves check who it came into range of and who it
+ * went out of range of, both ways around
+ */
+function updateInterest(room: Room, char: Character): void {
+  const { characterManager, connections, interestManager } = room;
+
+  if (interestManager.isEnabled() === false) {
+    return;
+  }
+
+  Object.keys(connections)
+    .filter((otherId) => otherId !== char.id)
+    .map((otherId) => characterManager.characters[otherId])
+    .filter((other) => other !== undefined)
+    .forEach((other) => {
+      notifyInterest(room, other, char, interestManager.update(other, char));
+      notifyInterest(room, char, other, interestManager.update(char, other));
+    });
+}
+
+/**
+ * Introduce the target to the observer when it comes into range and part
+ * it when it leaves
+ */
+function notifyInterest(
+  room: Room,
+  observer: Character,
+  target: Character,
+  change: InterestChange
+): void {
+  const connection = room.connections[observer.id];
+
+  if (connection === undefined) {
+    return;
+  }
+
+  if (change === "enter") {
+    broadcast(connection.socket, ["character-join", target]);
+  }
+
+  if (change === "leave") {
+    const partEvent: ICharacterPartEvent = {
+      id: target.id,
+      reason: "out-of-range",
+    };
+    broadcast(connection.socket, ["character-part", partEvent]);
+  }
+}
+
+/**
+ * Tell everyone in the room when a character leaves, whether they left,
+ * disconnected, or went idle long enough to expire
+ */
+function characterManagerPart(
+  room: Room,
+  partEvent: ICharacterPartEvent
+): void {
+  room.interestManager.forget(partEvent.id);
+  metrics.increment("sync_character_parts_total", {
+    reason: partEvent.reason || "left",
+  });
+  broadcast(socketServer.to(room.channel()), ["character-part", partEvent]);
+}
+
+/**
+ * Everyone in the room sees the shared objects change together
+ */
+function entityManagerChange(room: Room, entity: IEntity): void {
+  broadcast(socketServer.to(room.channel()), ["entity-state", entity]);
+}
+
+/**
+ * Everyone in the room hears chat, however far away they are
+ */
+function chatManagerMessage(room: Room, message: IChatMessageEvent): void {
+  broadcast(socketServer.to(room.channel()), ["chat-message", message]);
+}
+
+/**
+ * Listen to the characters of a room when it opens
+ */
+function roomManagerOpen(room: Room): void {
+  room.characterManager.on("part", (partEvent: ICharacterPartEvent) =>
+    characterManagerPart(room, partEvent)
+  );
+  room.entityManager.on("change", (entity: IEntity) =>
+    entityManagerChange(room, entity)
+  );
+  room.chatManager.on("message", (message: IChatMessageEvent) =>
+    chatManagerMessage(room, message)
+  );
+  serverStats.increment("rooms opened");
+  serverStats.set("rooms", roomManager.roomList().length);
+}
+
+/**
+ * The room is empty, its listeners are already gone
+ */
+function roomManagerClose(room: Room): void {
+  serverStats.set("rooms", roomManager.roomList().length);
+}
+
+/**
+ * In tick mode everyone in a room gets one snapshot with all the
+ * characters which moved or rotated there since the last tick
+ */
+function tick(room: Room): void {
+  const { characterManager, connections, interestManager } = room;
+  const characters = characterManager.takeDirtyCharacters();
+
+  if (characters.length === 0) {
+    return;
+  }
+
+  if (interestManager.isEnabled() === false) {
+    const snapshotEvent: ICharacterSnapshotEvent = {
+      characters: characters.map((char) =>
+        characterManager.characterState(char)
+      ),
+    };
+    broadcast(socketServer.to(room.channel()), [
+      "character-snapshot",
+      snapshotEvent,
+    ]);
+    return;
+  }
+
+  // everyone gets their own snapshot with only what they can see
+  Object.keys(connections).forEach((observerId) => {
+    const visible = characters
+      .filter((char) => char.id !== observerId)
+      .filter((char) => interestManager.canSee(observerId, char.id));
+
+    if (visible.length > 0) {
+      const snapshotEvent: ICharacterSnapshotEvent = {
+        characters: visible.map((char) =>
+          characterManager.characterState(char)
+        ),
+      };
+      broadcast(connections[observerId].socket, [
+        "character-snapshot",
+        snapshotEvent,
+      ]);
+    }
+  });
+}
+
+/**
+ * Part a character and disconnect its socket, the "part" listener tells
+ * everyone
+ */
+function kickCharacter(room: Room, char: Character): EventResultTuple {
+  const { id } = char;
+  const connection = room.connections[id];
+  const result = room.characterManager.characterPart({ id, reason: "kicked" });
+
+  if (result[0] === true && connection !== undefined) {
+    connection.socket.disconnect(true);
+  }
+
+  serverStats.increment("admin kicks");
+  return result;
+}
+
+/**
+ * Tell a socket why it's banned and disconnect it
+ */
+function disconnectBanned(socket: socketio.Socket, ban: IBan): void {
+  const bannedEvent: IBannedEvent = {
+    expiresAt: ban.expiresAt,
+    reason: ban.reason,
+  };
+  socket.emit("banned", bannedEvent);
+  socket.disconnect(true);
+  serverStats.increment("banned disconnects");
+}
+
+/**
+ * Kick everyone who is banned now, after an admin added a ban
+ */
+function enforceBans(): void {
+  roomManager.roomList().forEach((room) =>
+    Object.keys(room.connections).forEach((id) => {
+      const { socket } = room.connections[id];
+      const char = room.characterManager.characters[id];
+      const ban = moderationList.findBan({
+        id,
+        ip: socket.handshake.address,
+        username: char !== undefined ? char.username : undefined,
+      });
+
+      if (ban !== undefined) {
+        room.characterManager.characterPart({ id, reason: "kicked" });
+        disconnectBanned(socket, ban);
+      }
+    })
+  );
+}
+
+/**
+ * Change a character's username, its own client hears about it too
+ */
+function renameCharacter(
+  room: Room,
+  char: Character,
+  username: string
+): EventResultTuple {
+  const usernameEvent: ICharacterUsernameEvent = { id: char.id, username };
+  const result = room.characterManager.updateCharacterUsername(usernameEvent);
+
+  if (result[0] === true) {
+    broadcastCharacterEvent(room, char, ["character-username", usernameEvent]);
+  }
+
+  serverStats.increment("admin renames");
+  return result;
+}
+
+/**
+ * Move a character somewhere in the scene bounds for everyone else, its own
+ * scene can't move the camera
+ */
+function teleportCharacter(
+  room: Room,
+  char: Character,
+  position: Vector3Component
+): EventResultTuple {
+  const { characterManager } = room;
+
+  if (isValidVector3Component(position) === false) {
+    return [false, characterManager.validationError("position")];
+  }
+
+  const { id } = char;
+  const result = characterManager.updateCharacterPosition({
+    id,
+    position: clampVector3(position, characterManager.bounds),
+  });
+
+  if (result[0] === true) {
+    const positionEvent: ICharacterPositionEvent = {
+      id,
+      inBounds: char.inBounds,
+      position: char.position,
+    };
+    updateInterest(room, char);
+    broadcastCharacterEvent(room, char, ["character-position", positionEvent]);
+  }
+
+  serverStats.increment("admin teleports");
+  return result;
+}
+
+/**
+ * Print the counters when something changed since last time
+ */
+function logStats(): void {
+  if (serverStats.changed === false) {
+    return;
+  }
+
+  serverStats.changed = false;
+  console.log("[stats]", JSON.stringify(serverStats.snapshot()));
+}
+
+/**
+ * The gauges are read when Prometheus scrapes, the rest add up as it goes
+ */
+function sendMetrics(req: express.Request, res: express.Response): void {
+  const rooms = roomManager.roomList();
+
+  metrics.set(
+    "sync_sockets",
+    {},
+    Object.keys(socketServer.sockets.sockets).length
+  );
+  metrics.set("sync_rooms", {}, rooms.length);
+  metrics.reset("sync_characters");
+  rooms.forEach((room) =>
+    metrics.set(
+      "sync_characters",
+      { room: room.id },
+      room.characterManager.characterList().length
+    )
+  );
+
+  res.type("text/plain; version=0.0.4").send(metrics.render());
 }
 
 /**
@@ -225,6 +1577,24 @@ httpServer.listen(httpPort, HTTP_HOST, httpServerListening);
 socketServer.on("connect", socketServerConnection);
 socketServer.on("error", socketServerError);
 
+//
+// room events
+//
+roomManager.on("open", roomManagerOpen);
+roomManager.on("close", roomManagerClose);
+
+//
+// tick mode
+//
+if (tickMode === true) {
+  setInterval(() => roomManager.roomList().forEach(tick), 1000 / tickRate);
+}
+
+//
+// stats
+//
+setInterval(logStats, statsLogMs);
+
 //
 // graceful shutdown
 //